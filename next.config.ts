@@ -1,7 +1,10 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Theme packs are read from disk at startup; ship them with the server
+  outputFileTracingIncludes: {
+    '/**': ['./themes/**/*'],
+  },
 };
 
 export default nextConfig;
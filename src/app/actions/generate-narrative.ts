@@ -1,101 +1,135 @@
 'use server';
 
-import { generateObject } from 'ai';
-import { google } from '@ai-sdk/google';
-import { StructuredResponseSchema, type StructuredResponse } from '@/lib/schema';
-import { buildContext } from '@/lib/context';
-import type { ConversationTurn } from '@/types/game';
-import { THEMES } from '@/lib/prompts';
+import {
+  sanitizeErrorMessage,
+  type GenerateNarrativeOutput,
+  type RestoreSessionOutput,
+  type ShiftRealityInput,
+  type ShiftRealityOutput,
+} from '@/lib/narrative';
+import { getTheme, type ThemeKey } from '@/lib/themes';
+import {
+  SavedGameStateSchema,
+  SeedSchema,
+  ThemeKeySchema,
+  type GameSession,
+  type SavedGameState,
+} from '@/lib/save-schema';
+import { createSessionState, START_GAME_COMMAND } from '@/lib/engine';
+import { enforceSavedState } from '@/lib/rules';
+import {
+  createSession,
+  getSessionStore,
+  loadPlayableSession,
+  playTurn,
+  shiftSession,
+  toSessionUpdate,
+} from '@/lib/session-store';
+import { verifySnapshot } from '@/lib/save-signature';
+
+export type {
+  GenerateNarrativeOutput,
+  RestoreSessionOutput,
+  ShiftRealityInput,
+  ShiftRealityOutput,
+};
 
 /**
- * Input interface for the generateNarrative server action.
+ * Reports a failed turn without leaking provider details.
  */
-export interface GenerateNarrativeInput {
-  command: string;
-  history: ConversationTurn[];
-  playerState: {
-    health: number;
-    inventory: string[];
+function failure(error: unknown): Pick<GenerateNarrativeOutput, 'success' | 'error' | 'errorType'> {
+  console.error('AI generation failed:', error);
+
+  const { message, type } = sanitizeErrorMessage(error);
+
+  return {
+    success: false,
+    error: message,
+    errorType: type,
   };
-  /** System prompt to use for the AI. Defaults to horror theme. */
-  systemPrompt?: string;
 }
 
 /**
- * Output interface for the generateNarrative server action.
+ * Server action that starts a new run: creates a session for the theme
+ * and generates its prologue. Unknown themes fall back to the default pack.
+ *
+ * @param theme - The theme to play
+ * @param seed - Seed of a run to replay; a new run gets a fresh one
+ * @returns The prologue and the new session's authoritative state, or an error
  */
-export interface GenerateNarrativeOutput {
-  success: boolean;
-  data?: StructuredResponse;
-  error?: string;
-  errorType?: 'network' | 'validation' | 'rate_limit' | 'auth' | 'unknown';
+export async function startGame(theme: ThemeKey, seed?: string): Promise<GenerateNarrativeOutput> {
+  try {
+    const pack = getTheme(ThemeKeySchema.parse(theme));
+    const session = await createSession(createSessionState(pack.id, SeedSchema.optional().parse(seed)));
+    return {
+      success: true,
+      ...(await playTurn(session, START_GAME_COMMAND, {
+        prompt: pack.openingLine,
+        generate: (provider, request) => provider.generate(request),
+      })),
+    };
+  } catch (error) {
+    return failure(error);
+  }
 }
 
 /**
- * Sanitizes error messages for client display.
- * Removes sensitive information while keeping useful context.
+ * Server action that shifts a run into another theme mid-game, keeping
+ * health, map and memory and translating the scene and inventory.
+ *
+ * @param input - The session id and the theme to shift into
+ * @returns The shift narrative and the new authoritative state, or an error
  */
-function sanitizeErrorMessage(error: unknown): { message: string; type: GenerateNarrativeOutput['errorType'] } {
-  if (error instanceof Error) {
-    const msg = error.message.toLowerCase();
-    
-    if (msg.includes('api key') || msg.includes('unauthorized') || msg.includes('401')) {
-      return { message: 'Authentication failed with the void.', type: 'auth' };
-    }
-    if (msg.includes('rate limit') || msg.includes('429') || msg.includes('quota')) {
-      return { message: 'The void is overwhelmed. Please wait a moment.', type: 'rate_limit' };
-    }
-    if (msg.includes('timeout') || msg.includes('network') || msg.includes('fetch')) {
-      return { message: 'Connection to the void was lost.', type: 'network' };
-    }
-    if (msg.includes('parse') || msg.includes('json') || msg.includes('schema') || msg.includes('zod')) {
-      return { message: 'The void spoke in tongues we cannot understand.', type: 'validation' };
-    }
+export async function shiftReality(input: ShiftRealityInput): Promise<ShiftRealityOutput> {
+  try {
+    const session = await loadPlayableSession(input.sessionId);
+    const theme = ThemeKeySchema.parse(input.theme);
+    return { success: true, ...(await shiftSession(session, theme)) };
+  } catch (error) {
+    return failure(error);
   }
-  
-  return { message: 'An unknown disturbance ripples through the void.', type: 'unknown' };
 }
 
 /**
- * Server action that generates narrative responses from the AI Dungeon Master.
- * Uses Google Gemini with structured output to ensure consistent response format.
- * 
- * @param input - The command, history, player state, and optional system prompt
- * @returns The AI's structured response or an error
+ * Checks that a stored session is the run a snapshot was taken from, at the
+ * same turn: same seed and the exact same history, not just as long.
  */
-export async function generateNarrative(
-  input: GenerateNarrativeInput
-): Promise<GenerateNarrativeOutput> {
-  try {
-    // Use provided system prompt or default to horror theme
-    const systemPrompt = input.systemPrompt || THEMES.horror;
-    
-    // Build context from history and player state
-    const context = buildContext(input.history, input.playerState);
-    
-    // Construct the full prompt
-    const prompt = `${context}\n\nPlayer: ${input.command}`;
+function isSameRun(session: GameSession, saved: SavedGameState): boolean {
+  return session.state.seed === saved.seed
+    && JSON.stringify(session.state.history) === JSON.stringify(saved.history);
+}
 
-    const { object } = await generateObject({
-      model: google('gemini-2.5-flash'),
-      schema: StructuredResponseSchema,
-      system: systemPrompt,
-      prompt,
-    });
+/**
+ * Server action that reattaches a saved game to a server session.
+ * Only snapshots of a state this server signed are accepted, so a save or
+ * run file edited by hand is refused. If the snapshot's session still
+ * exists at exactly that point it is resumed as-is; otherwise a new
+ * session, marked as restored, is rebuilt from the snapshot, held to the
+ * theme's current stats and bounds.
+ *
+ * @param snapshot - The saved game to continue
+ * @returns The session's authoritative state, or an error
+ */
+export async function restoreSession(snapshot: SavedGameState): Promise<RestoreSessionOutput> {
+  const result = SavedGameStateSchema.safeParse(snapshot);
+  if (!result.success) {
+    return { success: false, error: 'Memory bank corrupted.' };
+  }
 
-    return {
-      success: true,
-      data: object,
-    };
-  } catch (error) {
-    console.error('AI generation failed:', error);
+  const saved = result.data;
+  if (!verifySnapshot(saved)) {
+    return { success: false, error: 'This memory was not written by the void.' };
+  }
 
-    const { message, type } = sanitizeErrorMessage(error);
-    
-    return {
-      success: false,
-      error: message,
-      errorType: type,
-    };
+  try {
+    const existing = saved.sessionId ? await getSessionStore().get(saved.sessionId) : undefined;
+    const session = existing && isSameRun(existing, saved)
+      ? existing
+      : await createSession(enforceSavedState(saved), 'restored');
+
+    return { success: true, session: toSessionUpdate(session) };
+  } catch (error) {
+    console.error('Session restore failed:', error);
+    return { success: false, error: 'The void could not hold this reality.' };
   }
 }
@@ -0,0 +1,30 @@
+import { getContextDumps, isInspectorEnabled } from '@/lib/context-inspector';
+
+/**
+ * Context inspector: returns exactly what was sent to the provider for a
+ * session's recent turns, with each section's budget and whether it was
+ * trimmed or dropped.
+ *
+ * GET /api/context?sessionId=<id>[&turn=<n>]
+ *
+ * Only available outside production, or with CONTEXT_INSPECTOR=on.
+ */
+export async function GET(request: Request): Promise<Response> {
+  if (!isInspectorEnabled()) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  const params = new URL(request.url).searchParams;
+  const sessionId = params.get('sessionId');
+  if (!sessionId) {
+    return Response.json({ error: 'sessionId is required' }, { status: 400 });
+  }
+
+  const turnParam = params.get('turn');
+  const turn = turnParam === null ? undefined : Number(turnParam);
+  if (turn !== undefined && !Number.isInteger(turn)) {
+    return Response.json({ error: 'turn must be an integer' }, { status: 400 });
+  }
+
+  return Response.json({ sessionId, turns: getContextDumps(sessionId, turn) });
+}
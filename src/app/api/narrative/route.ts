@@ -0,0 +1,82 @@
+import {
+  sanitizeErrorMessage,
+  SessionCommandSchema,
+  type NarrativeStreamEvent,
+} from '@/lib/narrative';
+import type { NarrativeStream } from '@/lib/providers';
+import { loadPlayableSession, playTurn } from '@/lib/session-store';
+
+/**
+ * Streams a Dungeon Master turn as newline-delimited JSON events.
+ * Narrative text is forwarded as it is generated; the full response
+ * (state update, visual and sound cues) is only sent once it has been
+ * validated against StructuredResponseSchema, checked by the rules engine
+ * and applied to the server's session. When the Dungeon Master asks for a
+ * skill check, the roll is sent and the outcome streams from a second call.
+ * During a fight the round is resolved first and only its narration streams;
+ * talking to a known character streams a dialogue carrying their memory.
+ * Only `{ sessionId, command }` is read from the request body; any other
+ * body is answered with a 400 and a single error event.
+ */
+export async function POST(request: Request): Promise<Response> {
+  const encoder = new TextEncoder();
+  const headers = {
+    'Content-Type': 'application/x-ndjson; charset=utf-8',
+    'Cache-Control': 'no-cache',
+  };
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    body = undefined;
+  }
+  const parsed = SessionCommandSchema.safeParse(body);
+  if (!parsed.success) {
+    const event: NarrativeStreamEvent = {
+      type: 'error',
+      error: 'The void cannot parse this transmission.',
+      errorType: 'validation',
+    };
+    return new Response(`${JSON.stringify(event)}\n`, { status: 400, headers });
+  }
+  const { sessionId, command } = parsed.data;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: NarrativeStreamEvent) => {
+        controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      };
+
+      // Forwards narrative text as it grows, then resolves the validated response
+      const relay = async ({ partialObjectStream, object }: NarrativeStream) => {
+        let narrative = '';
+        for await (const partial of partialObjectStream) {
+          if (typeof partial.narrative === 'string' && partial.narrative !== narrative) {
+            narrative = partial.narrative;
+            send({ type: 'narrative', narrative });
+          }
+        }
+        return object;
+      };
+
+      try {
+        const session = await loadPlayableSession(sessionId);
+        const { data, session: update } = await playTurn(session, command, {
+          generate: (provider, request) => relay(provider.stream(request)),
+          onRoll: (check) => send({ type: 'roll', check }),
+        });
+        send({ type: 'complete', data, session: update });
+      } catch (error) {
+        console.error('AI stream failed:', error);
+
+        const { message, type } = sanitizeErrorMessage(error);
+        send({ type: 'error', error: message, errorType: type });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, { headers });
+}
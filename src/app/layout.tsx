@@ -2,6 +2,8 @@ import type { Metadata, Viewport } from "next";
 import { Geist_Mono } from "next/font/google";
 import "./globals.css";
 import "@/styles/crt.css";
+import { ThemeRegistry } from "@/components/ThemeRegistry";
+import { loadThemePacks } from "@/lib/theme-loader";
 
 const geistMono = Geist_Mono({
   variable: "--font-geist-mono",
@@ -41,7 +43,7 @@ export default function RootLayout({
   return (
     <html lang="en">
       <body className={`${geistMono.variable} antialiased`}>
-        {children}
+        <ThemeRegistry packs={loadThemePacks()}>{children}</ThemeRegistry>
       </body>
     </html>
   );
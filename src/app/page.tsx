@@ -2,6 +2,7 @@
 
 import { useEffect } from 'react';
 import { useGameStore } from '@/store/game-store';
+import { watchAchievements } from '@/store/achievements';
 import { SoundManager } from '@/lib/sound-manager';
 import {
   RetroTerminal,
@@ -20,26 +21,35 @@ import {
 export default function GamePage() {
   const {
     health,
+    stats,
+    effects,
+    encounter,
+    currentTheme,
     inventory,
     isGameOver,
+    ending,
+    runStats,
     isProcessing,
     isTyping,
     narrativeEntries,
     textSpeed,
-    initializeGame,
+    resumeGame,
     submitCommand,
     setTypingComplete,
     resetGame,
   } = useGameStore();
 
+  // Unlock achievements from game events while the page is open
+  useEffect(() => watchAchievements(), []);
+
   // Initialize game and preload sounds on mount
   useEffect(() => {
     // Preload all sound assets
     SoundManager.preloadAll();
     
-    // Initialize the game (generates prologue)
-    initializeGame();
-  }, [initializeGame]);
+    // Restore the autosave, or initialize a new game (generates prologue)
+    resumeGame();
+  }, [resumeGame]);
 
   // Handle command submission
   const handleSubmit = (command: string) => {
@@ -58,6 +68,10 @@ export default function GamePage() {
         {/* Status bar at the top */}
         <StatusBar
           health={health}
+          stats={stats}
+          theme={currentTheme}
+          effects={effects}
+          encounter={encounter}
           inventory={inventory}
           isGameOver={isGameOver}
         />
@@ -88,7 +102,14 @@ export default function GamePage() {
         />
 
         {/* Game over overlay */}
-        {isGameOver && <GameOverScreen onRestart={resetGame} />}
+        {isGameOver && (
+          <GameOverScreen
+            onRestart={resetGame}
+            ending={ending}
+            slainBy={encounter?.enemy.name}
+            runStats={runStats}
+          />
+        )}
       </div>
     </RetroTerminal>
   );
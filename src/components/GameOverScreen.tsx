@@ -1,18 +1,82 @@
 'use client';
 
 import React, { useEffect, useCallback } from 'react';
+import type { RunEnding, RunStats } from '@/lib/save-schema';
+import type { EndingType } from '@/lib/schema';
+import { formatDuration, formatTop } from '@/lib/run-stats';
+
+/**
+ * Banner shown above each kind of ending.
+ */
+const BANNERS: Record<EndingType, string> = {
+  victory: `
+ █   █ ███  ████ █████  ███  ████  █   █
+ █   █  █  █       █   █   █ █   █  █ █
+ █   █  █  █       █   █   █ ████    █
+  █ █   █  █       █   █   █ █  █    █
+   █   ███  ████   █    ███  █   █   █
+`,
+  escape: `
+ █████  ████  ████  ███  ████  █████ ████
+ █     █     █     █   █ █   █ █     █   █
+ ████   ███  █     █████ ████  ████  █   █
+ █         █ █     █   █ █     █     █   █
+ █████ ████   ████ █   █ █     █████ ████
+`,
+  madness: `
+ █   █  ███  ████  █   █ █████  ████  ████
+ ██ ██ █   █ █   █ ██  █ █     █     █
+ █ █ █ █████ █   █ █ █ █ ████   ███   ███
+ █   █ █   █ █   █ █  ██ █         █     █
+ █   █ █   █ ████  █   █ █████ ████  ████
+`,
+  death: `
+   ▄████  ▄▄▄       ███▄ ▄███▓▓█████ 
+  ██▒ ▀█▒▒████▄    ▓██▒▀█▀ ██▒▓█   ▀ 
+ ▒██░▄▄▄░▒██  ▀█▄  ▓██    ▓██░▒███   
+ ░▓█  ██▓░██▄▄▄▄██ ▒██    ▒██ ▒▓█  ▄ 
+ ░▒▓███▀▒ ▓█   ▓██▒▒██▒   ░██▒░▒████▒
+  ░▒   ▒  ▒▒   ▓▒█░░ ▒░   ░  ░░░ ▒░ ░
+   ░   ░   ▒   ▒▒ ░░  ░      ░ ░ ░  ░
+ ░ ░   ░   ░   ▒   ░      ░      ░   
+       ░       ░  ░       ░      ░  ░
+                                     
+  ▒█████   ██▒   █▓▓█████  ██▀███   
+ ▒██▒  ██▒▓██░   █▒▓█   ▀ ▓██ ▒ ██▒ 
+ ▒██░  ██▒ ▓██  █▒░▒███   ▓██ ░▄█ ▒ 
+ ▒██   ██░  ▒██ █░░▒▓█  ▄ ▒██▀▀█▄   
+ ░ ████▓▒░   ▒▀█░  ░▒████▒░██▓ ▒██▒ 
+ ░ ▒░▒░▒░    ░ ▐░  ░░ ▒░ ░░ ▒▓ ░▒▓░ 
+   ░ ▒ ▒░    ░ ░░   ░ ░  ░  ░▒ ░ ▒░ 
+ ░ ░ ░ ▒       ░░     ░     ░░   ░  
+     ░ ░        ░     ░  ░   ░      
+               ░                    
+`,
+};
 
 interface GameOverScreenProps {
   onRestart: () => void;
+  /** How the run ended; runs from older saves may not say */
+  ending?: RunEnding | null;
+  /** Enemy the player was fighting when they died, if any */
+  slainBy?: string;
+  /** What the player did this run, for the report card */
+  runStats?: RunStats;
 }
 
 /**
- * GameOverScreen - Displays GAME OVER message and restart prompt.
+ * GameOverScreen - Displays how the run ended: a banner and headline per
+ * ending (victory, escape, madness or death), the epitaph, what killed
+ * the player if they died in a fight, a report card of the run and the
+ * restart prompt.
  * Handles keypress to trigger game reset.
  * 
  * Requirements: 5.4
  */
-export function GameOverScreen({ onRestart }: GameOverScreenProps) {
+export function GameOverScreen({ onRestart, ending, slainBy, runStats }: GameOverScreenProps) {
+  const type = ending?.type ?? 'death';
+  const survived = type === 'victory' || type === 'escape';
+
   const handleKeyPress = useCallback((e: KeyboardEvent) => {
     // Restart on any key press
     if (!e.ctrlKey && !e.altKey && !e.metaKey) {
@@ -31,7 +95,7 @@ export function GameOverScreen({ onRestart }: GameOverScreenProps) {
 
   return (
     <div 
-      className="crt-game-over" 
+      className={`crt-game-over crt-ending-${type}`}
       onClick={handleClick}
       role="dialog"
       aria-modal="true"
@@ -39,34 +103,47 @@ export function GameOverScreen({ onRestart }: GameOverScreenProps) {
     >
       <div className="crt-game-over-content">
         <pre className="crt-game-over-ascii" aria-hidden="true">
-{`
-   ▄████  ▄▄▄       ███▄ ▄███▓▓█████ 
-  ██▒ ▀█▒▒████▄    ▓██▒▀█▀ ██▒▓█   ▀ 
- ▒██░▄▄▄░▒██  ▀█▄  ▓██    ▓██░▒███   
- ░▓█  ██▓░██▄▄▄▄██ ▒██    ▒██ ▒▓█  ▄ 
- ░▒▓███▀▒ ▓█   ▓██▒▒██▒   ░██▒░▒████▒
-  ░▒   ▒  ▒▒   ▓▒█░░ ▒░   ░  ░░░ ▒░ ░
-   ░   ░   ▒   ▒▒ ░░  ░      ░ ░ ░  ░
- ░ ░   ░   ░   ▒   ░      ░      ░   
-       ░       ░  ░       ░      ░  ░
-                                     
-  ▒█████   ██▒   █▓▓█████  ██▀███   
- ▒██▒  ██▒▓██░   █▒▓█   ▀ ▓██ ▒ ██▒ 
- ▒██░  ██▒ ▓██  █▒░▒███   ▓██ ░▄█ ▒ 
- ▒██   ██░  ▒██ █░░▒▓█  ▄ ▒██▀▀█▄   
- ░ ████▓▒░   ▒▀█░  ░▒████▒░██▓ ▒██▒ 
- ░ ▒░▒░▒░    ░ ▐░  ░░ ▒░ ░░ ▒▓ ░▒▓░ 
-   ░ ▒ ▒░    ░ ░░   ░ ░  ░  ░▒ ░ ▒░ 
- ░ ░ ░ ▒       ░░     ░     ░░   ░  
-     ░ ░        ░     ░  ░   ░      
-               ░                    
-`}
+          {BANNERS[type]}
         </pre>
         <h1 id="game-over-title" className="crt-game-over-text">
-          THE VOID CLAIMS YOU
+          {ending?.title ?? 'THE VOID CLAIMS YOU'}
         </h1>
+        {ending && (
+          <p className="crt-game-over-epitaph">
+            {ending.epitaph}
+          </p>
+        )}
+        {slainBy && !survived && (
+          <p className="crt-game-over-cause">
+            SLAIN BY {slainBy.toUpperCase()}
+          </p>
+        )}
+        {ending && (
+          <dl className="crt-run-summary">
+            <dt>TURNS</dt>
+            <dd>{ending.turns}</dd>
+            <dt>ITEMS FOUND</dt>
+            <dd>{ending.itemsFound}</dd>
+            <dt>DAMAGE TAKEN</dt>
+            <dd>{ending.damageTaken}</dd>
+            {runStats && (
+              <>
+                <dt>HEALED</dt>
+                <dd>{runStats.healed}</dd>
+                <dt>ITEMS USED</dt>
+                <dd>{runStats.itemsUsed}</dd>
+                <dt>TIME PLAYED</dt>
+                <dd>{formatDuration(runStats.timePlayed)}</dd>
+                <dt>COMMANDS</dt>
+                <dd>{formatTop(runStats.commands)}</dd>
+                <dt>VISIONS</dt>
+                <dd>{formatTop(runStats.visualCues)}</dd>
+              </>
+            )}
+          </dl>
+        )}
         <p className="crt-restart-prompt">
-          Press any key to return to the darkness...
+          {survived ? 'Press any key to face the darkness again...' : 'Press any key to return to the darkness...'}
         </p>
       </div>
     </div>
@@ -1,6 +1,6 @@
 'use client';
 
-import { useRef, useEffect, useState, useCallback } from 'react';
+import { useRef, useEffect, useEffectEvent, useState, useCallback } from 'react';
 import type { NarrativeEntry, TextSpeed } from '@/types/game';
 import { createTypewriter, TYPEWRITER_SPEEDS, getAdjustedSpeed, type TypewriterController } from '@/lib/typewriter';
 
@@ -28,33 +28,39 @@ export function NarrativeLog({ entries, isTyping, onSkipTyping, textSpeed }: Nar
     e => e.type === 'narrator' || e.type === 'ascii'
   ).slice(-1)[0];
 
+  const lastNarratorId = lastNarratorEntry?.id;
+  const lastNarratorType = lastNarratorEntry?.type;
+
+  // Feeds the latest (possibly still streaming) content into a typewriter
+  const syncTypewriter = useEffectEvent((controller: TypewriterController) => {
+    if (!lastNarratorEntry) return;
+    controller.setText(lastNarratorEntry.content);
+    if (!lastNarratorEntry.isStreaming) {
+      controller.end();
+    }
+  });
+
   // Typewriter effect for the latest narrator/ascii entry using the typewriter utility
   useEffect(() => {
-    if (!lastNarratorEntry || completedEntries.has(lastNarratorEntry.id)) {
+    if (!lastNarratorId || completedEntries.has(lastNarratorId)) {
       return;
     }
 
-    const baseSpeed = lastNarratorEntry.type === 'ascii' 
+    const baseSpeed = lastNarratorType === 'ascii' 
       ? TYPEWRITER_SPEEDS.ascii 
       : TYPEWRITER_SPEEDS.narrative;
     
     const adjustedSpeed = getAdjustedSpeed(baseSpeed, textSpeed);
 
-    // Handle instant mode - skip typewriter entirely
-    if (adjustedSpeed === 0) {
-      setDisplayedText(prev => new Map(prev).set(lastNarratorEntry.id, lastNarratorEntry.content));
-      setCompletedEntries(prev => new Set(prev).add(lastNarratorEntry.id));
-      onSkipTyping();
-      return;
-    }
-
-    const controller = createTypewriter(lastNarratorEntry.content, {
+    // Entries may still be streaming in, so the typewriter follows their growth
+    const controller = createTypewriter('', {
       speed: adjustedSpeed,
+      streaming: true,
       onUpdate: (text) => {
-        setDisplayedText(prev => new Map(prev).set(lastNarratorEntry.id, text));
+        setDisplayedText(prev => new Map(prev).set(lastNarratorId, text));
       },
       onComplete: () => {
-        setCompletedEntries(prev => new Set(prev).add(lastNarratorEntry.id));
+        setCompletedEntries(prev => new Set(prev).add(lastNarratorId));
         onSkipTyping();
       },
     });
@@ -62,11 +68,25 @@ export function NarrativeLog({ entries, isTyping, onSkipTyping, textSpeed }: Nar
     typewriterRef.current = controller;
     controller.start();
 
+    // Handle instant mode - reveal text as soon as it arrives
+    if (adjustedSpeed === 0) {
+      controller.skip();
+    }
+
+    syncTypewriter(controller);
+
     return () => {
       controller.stop();
       typewriterRef.current = null;
     };
-  }, [lastNarratorEntry, completedEntries, onSkipTyping, textSpeed]);
+  }, [lastNarratorId, lastNarratorType, completedEntries, onSkipTyping, textSpeed]);
+
+  // Push streamed text into the running typewriter as the entry grows
+  useEffect(() => {
+    if (typewriterRef.current) {
+      syncTypewriter(typewriterRef.current);
+    }
+  }, [lastNarratorEntry?.content, lastNarratorEntry?.isStreaming]);
 
 
   // Auto-scroll to bottom when new entries are added
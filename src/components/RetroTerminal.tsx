@@ -1,9 +1,12 @@
 'use client';
 
-import { ReactNode, useEffect, useRef, useState } from 'react';
+import { CSSProperties, ReactNode, useEffect, useRef, useState } from 'react';
 import { useGameStore } from '@/store/game-store';
-import { THEME_CONFIG, type ThemeKey } from '@/lib/prompts';
+import { crtPalette, getTheme, listThemes, type ThemeKey } from '@/lib/themes';
 import type { TextSpeed } from '@/types/game';
+import type { SaveGame } from '@/lib/save-schema';
+import { SaveSlots, AUTOSAVE_SLOT, SAVE_SLOTS } from '@/lib/save-slots';
+import { createRunExport, formatTranscript, downloadFile } from '@/lib/transcript';
 
 const TEXT_SPEED_OPTIONS: { value: TextSpeed; label: string }[] = [
   { value: 'slow', label: 'SLOW' },
@@ -12,6 +15,11 @@ const TEXT_SPEED_OPTIONS: { value: TextSpeed; label: string }[] = [
   { value: 'instant', label: 'INSTANT' },
 ];
 
+/**
+ * Slots listed in the BIOS memory bank section, autosave first.
+ */
+const MEMORY_BANK_SLOTS: string[] = [AUTOSAVE_SLOT, ...SAVE_SLOTS];
+
 export type CRTTheme = 'green' | 'amber';
 
 /**
@@ -97,47 +105,51 @@ function GearIcon() {
 
 interface RetroTerminalProps {
   children: ReactNode;
-  /** Color theme for the terminal. Defaults to 'green'. */
+  /** Color theme for the terminal. Defaults to the theme pack's color. */
   theme?: CRTTheme;
 }
 
-const BOOT_MESSAGES = [
-  'VOID SYSTEMS BIOS v6.66',
-  'COPYRIGHT (C) 2025 KIRO INDUSTRIES',
-  '',
-  'INITIALIZING MEMORY.............. OK',
-  'LOADING VOID KERNEL.............. OK',
-  'SCANNING NEURAL PATHWAYS......... OK',
-  'CONNECTING TO NEURAL NET......... OK',
-  'CALIBRATING FEAR SENSORS......... OK',
-  '',
-  'ALL SYSTEMS NOMINAL',
-  'ENTERING THE VOID...',
-];
-
 /**
  * RetroTerminal - The root container component that applies all CRT visual effects.
  * Creates an authentic 80s terminal aesthetic with scanlines, flicker, curvature, and glow.
- * Supports green (default) and amber color themes.
+ * Tinted in the active theme pack's phosphor color, or a fixed green/amber theme.
  * Includes damage feedback effect when player takes damage.
  * Features a fake BIOS boot sequence on initial load.
  * 
  * Requirements: 1.1, 1.2, 1.3, 1.4, 1.5
  */
-export function RetroTerminal({ children, theme = 'green' }: RetroTerminalProps) {
+export function RetroTerminal({ children, theme }: RetroTerminalProps) {
   const themeClass = theme === 'amber' ? 'crt-theme-amber' : '';
   const health = useGameStore((state) => state.health);
   const isMuted = useGameStore((state) => state.isMuted);
   const toggleMute = useGameStore((state) => state.toggleMute);
   const currentTheme = useGameStore((state) => state.currentTheme);
+  const seed = useGameStore((state) => state.seed);
+  const pack = getTheme(currentTheme);
+  const bootMessages = pack.bootMessages;
   const setTheme = useGameStore((state) => state.setTheme);
+  const shiftReality = useGameStore((state) => state.shiftReality);
+  const canShift = useGameStore(
+    (state) => state.sessionId !== null && !state.isGameOver && !state.isProcessing && state.history.length > 0
+  );
   const textSpeed = useGameStore((state) => state.textSpeed);
   const setTextSpeed = useGameStore((state) => state.setTextSpeed);
+  const saveGame = useGameStore((state) => state.saveGame);
+  const loadGame = useGameStore((state) => state.loadGame);
+  const deleteSave = useGameStore((state) => state.deleteSave);
+  const getSnapshot = useGameStore((state) => state.getSnapshot);
+  const importRun = useGameStore((state) => state.importRun);
+  const addNarrativeEntry = useGameStore((state) => state.addNarrativeEntry);
   const previousHealthRef = useRef(health);
   const [isDamaged, setIsDamaged] = useState(false);
   const [isBooting, setIsBooting] = useState(true);
   const [bootLines, setBootLines] = useState<string[]>([]);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [saves, setSaves] = useState<SaveGame[]>([]);
+  const [saveName, setSaveName] = useState('');
+  const [selectedTheme, setSelectedTheme] = useState<ThemeKey>(currentTheme);
+  const [replaySeed, setReplaySeed] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   // Boot sequence effect
   useEffect(() => {
@@ -145,8 +157,9 @@ export function RetroTerminal({ children, theme = 'green' }: RetroTerminalProps)
 
     let lineIndex = 0;
     const interval = setInterval(() => {
-      if (lineIndex < BOOT_MESSAGES.length) {
-        setBootLines((prev) => [...prev, BOOT_MESSAGES[lineIndex]]);
+      if (lineIndex < bootMessages.length) {
+        const line = bootMessages[lineIndex];
+        setBootLines((prev) => [...prev, line]);
         lineIndex++;
       } else {
         clearInterval(interval);
@@ -158,7 +171,7 @@ export function RetroTerminal({ children, theme = 'green' }: RetroTerminalProps)
     }, 150);
 
     return () => clearInterval(interval);
-  }, [isBooting]);
+  }, [isBooting, bootMessages]);
 
   // Monitor health changes and trigger damage effect
   useEffect(() => {
@@ -178,17 +191,69 @@ export function RetroTerminal({ children, theme = 'green' }: RetroTerminalProps)
     themeClass,
     isDamaged ? 'damage-effect' : '',
   ].filter(Boolean).join(' ');
+  const containerStyle = theme ? undefined : (crtPalette(pack.crtColor) as CSSProperties);
+
+  const openSettings = () => {
+    setSaves(SaveSlots.list());
+    setSelectedTheme(currentTheme);
+    setReplaySeed(seed ?? '');
+    setIsSettingsOpen(true);
+  };
+
+  const handleSave = (slot: string) => {
+    saveGame(slot, saveName);
+    setSaveName('');
+    setSaves(SaveSlots.list());
+  };
+
+  const handleLoad = (slot: string) => {
+    if (loadGame(slot)) {
+      setIsSettingsOpen(false);
+    }
+  };
+
+  const handleDelete = (slot: string) => {
+    deleteSave(slot);
+    setSaves(SaveSlots.list());
+  };
+
+  const handleExport = (format: 'json' | 'text') => {
+    const runExport = createRunExport(getSnapshot());
+    const stamp = new Date(runExport.exportedAt).toISOString().replace(/[:.]/g, '-');
+    if (format === 'json') {
+      downloadFile(`void-run-${stamp}.json`, JSON.stringify(runExport, null, 2), 'application/json');
+    } else {
+      downloadFile(`void-transcript-${stamp}.md`, formatTranscript(runExport), 'text/markdown');
+    }
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      importRun(await file.text());
+    } catch (error) {
+      // The file couldn't be read at all (removed, permissions...)
+      console.error('Failed to read run file:', error);
+      addNarrativeEntry({ type: 'system', content: '► IMPORT REJECTED: File could not be read' });
+    }
+    setIsSettingsOpen(false);
+  };
 
-  const handleThemeChange = (newTheme: ThemeKey) => {
-    setTheme(newTheme);
+  const handleReboot = (seed?: string) => {
+    setTheme(selectedTheme, seed);
     setIsSettingsOpen(false);
     // Trigger boot sequence for new theme
     setIsBooting(true);
     setBootLines([]);
   };
+
+  const handleShift = () => {
+    setIsSettingsOpen(false);
+    shiftReality(selectedTheme);
+  };
   
   return (
-    <div className={containerClasses}>
+    <div className={containerClasses} style={containerStyle}>
       <div className="crt-screen">
         <div className="crt-content">
           {isBooting ? (
@@ -217,7 +282,7 @@ export function RetroTerminal({ children, theme = 'green' }: RetroTerminalProps)
         </a>
         {/* Settings button */}
         <button
-          onClick={() => setIsSettingsOpen(true)}
+          onClick={openSettings}
           className="settings-toggle"
           aria-label="Open settings"
           title="Reality Shifter"
@@ -252,17 +317,53 @@ export function RetroTerminal({ children, theme = 'green' }: RetroTerminalProps)
               </div>
               <div className="bios-content">
                 <div className="bios-label">SELECT PROTOCOL:</div>
-                {(Object.keys(THEME_CONFIG) as ThemeKey[]).map((themeKey) => (
+                {listThemes().map(({ id, displayName }) => (
                   <button
-                    key={themeKey}
-                    onClick={() => handleThemeChange(themeKey)}
-                    className={`bios-button ${currentTheme === themeKey ? 'bios-button-active' : ''}`}
+                    key={id}
+                    onClick={() => setSelectedTheme(id)}
+                    className={`bios-button ${selectedTheme === id ? 'bios-button-active' : ''}`}
                   >
-                    {currentTheme === themeKey ? '► ' : '  '}
-                    {THEME_CONFIG[themeKey].displayName}
-                    {currentTheme === themeKey ? ' ◄' : ''}
+                    {selectedTheme === id ? '► ' : '  '}
+                    {displayName}
+                    {currentTheme === id ? ' (ACTIVE)' : ''}
+                    {selectedTheme === id ? ' ◄' : ''}
                   </button>
                 ))}
+                <div className="bios-speed-row" style={{ marginTop: '0.5rem' }}>
+                  <button
+                    onClick={handleShift}
+                    disabled={!canShift || selectedTheme === currentTheme}
+                    className="bios-speed-button"
+                    title="Carry your health, items and map into the selected protocol"
+                  >
+                    SHIFT REALITY
+                  </button>
+                  <button onClick={() => handleReboot()} className="bios-speed-button" title="Start over in the selected protocol">
+                    REBOOT UNIVERSE
+                  </button>
+                </div>
+
+                <div className="bios-label" style={{ marginTop: '1rem' }}>RUN SEED: {seed ?? '[NONE]'}</div>
+                <input
+                  type="text"
+                  value={replaySeed}
+                  onChange={(e) => setReplaySeed(e.target.value.toUpperCase())}
+                  className="bios-input"
+                  placeholder="SEED TO REPLAY"
+                  maxLength={32}
+                  spellCheck={false}
+                  aria-label="Seed to replay"
+                />
+                <div className="bios-speed-row">
+                  <button
+                    onClick={() => handleReboot(replaySeed.trim())}
+                    disabled={!replaySeed.trim()}
+                    className="bios-speed-button"
+                    title="Start over in the selected protocol with the same dice"
+                  >
+                    REPLAY WITH SEED
+                  </button>
+                </div>
                 
                 <div className="bios-label" style={{ marginTop: '1rem' }}>TEXT SPEED:</div>
                 <div className="bios-speed-row">
@@ -276,12 +377,78 @@ export function RetroTerminal({ children, theme = 'green' }: RetroTerminalProps)
                     </button>
                   ))}
                 </div>
+
+                <div className="bios-label" style={{ marginTop: '1rem' }}>MEMORY BANKS:</div>
+                <input
+                  type="text"
+                  value={saveName}
+                  onChange={(e) => setSaveName(e.target.value)}
+                  className="bios-input"
+                  placeholder="SAVE NAME (OPTIONAL)"
+                  maxLength={32}
+                  spellCheck={false}
+                  aria-label="Save name"
+                />
+                {MEMORY_BANK_SLOTS.map((slot) => {
+                  const save = saves.find((s) => s.slot === slot);
+                  return (
+                    <div key={slot} className="bios-slot-row">
+                      <span className="bios-slot-info">
+                        {slot.toUpperCase()}: {save ? `${save.name} // HP ${save.state.health}` : '[EMPTY]'}
+                      </span>
+                      <div className="bios-speed-row">
+                        {slot !== AUTOSAVE_SLOT && (
+                          <button onClick={() => handleSave(slot)} className="bios-speed-button">
+                            SAVE
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleLoad(slot)}
+                          className="bios-speed-button"
+                          disabled={!save}
+                        >
+                          LOAD
+                        </button>
+                        <button
+                          onClick={() => handleDelete(slot)}
+                          className="bios-speed-button"
+                          disabled={!save}
+                        >
+                          DELETE
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+
+                <div className="bios-label" style={{ marginTop: '1rem' }}>TRANSCRIPTS:</div>
+                <div className="bios-speed-row">
+                  <button onClick={() => handleExport('json')} className="bios-speed-button">
+                    EXPORT RUN
+                  </button>
+                  <button onClick={() => handleExport('text')} className="bios-speed-button">
+                    EXPORT TEXT
+                  </button>
+                  <button onClick={() => importInputRef.current?.click()} className="bios-speed-button">
+                    IMPORT RUN
+                  </button>
+                  <input
+                    ref={importInputRef}
+                    type="file"
+                    accept="application/json,.json"
+                    hidden
+                    onChange={(e) => {
+                      handleImport(e.target.files?.[0]);
+                      e.target.value = '';
+                    }}
+                  />
+                </div>
               </div>
               <div className="bios-footer">
                 <span className="bios-border-desktop">╠══════════════════════════════════════╣</span>
                 <br />
                 <span className="bios-border-desktop">║</span>
-                <span className="bios-warning">WARNING: PROTOCOL CHANGE</span>
+                <span className="bios-warning">WARNING: UNIVERSE REBOOT</span>
                 <span className="bios-border-desktop">║</span>
                 <br />
                 <span className="bios-border-desktop">║</span>
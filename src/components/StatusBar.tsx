@@ -1,47 +1,155 @@
 'use client';
 
 import React from 'react';
+import type { ActiveEffect, Encounter, InventoryItem } from '@/lib/save-schema';
+import { formatItem } from '@/lib/inventory';
+import { getTheme, type StatDefinition, type ThemeKey } from '@/lib/themes';
+import { normalizeStats, statDanger } from '@/lib/stats';
+
+/**
+ * Most pips drawn for a pips-style stat; larger ranges are drawn as a bar.
+ */
+const MAX_PIPS = 20;
 
 interface StatusBarProps {
   health: number;
-  inventory: string[];
+  /** Every stat the theme declares, by id */
+  stats: Record<string, number>;
+  theme: ThemeKey;
+  /** Status effects currently active */
+  effects: ActiveEffect[];
+  /** The fight in progress, if any */
+  encounter: Encounter | null;
+  inventory: InventoryItem[];
   isGameOver: boolean;
 }
 
+interface StatGaugeProps {
+  stat: StatDefinition;
+  value: number;
+}
+
+/**
+ * StatGauge - One stat in the stat's display style: a bar, pips or a plain value.
+ * Bars and pips turn critical when the stat is close to its death condition.
+ */
+function StatGauge({ stat, value }: StatGaugeProps) {
+  const range = stat.max - stat.min;
+  const percentage = Math.round(((value - stat.min) / range) * 100);
+  const isCritical = statDanger(stat, value) >= 0.7;
+
+  if (stat.display === 'value') {
+    return <span className="crt-health-value">{value}</span>;
+  }
+
+  if (stat.display === 'pips' && range <= MAX_PIPS) {
+    const filled = value - stat.min;
+    return (
+      <span
+        className={`crt-stat-pips ${isCritical ? 'critical' : ''}`}
+        aria-label={`${stat.label} ${value} of ${stat.max}`}
+      >
+        {'■'.repeat(filled)}{'□'.repeat(range - filled)}
+      </span>
+    );
+  }
+
+  return (
+    <div className="crt-health-bar">
+      <div className="crt-health-bar-track">
+        <div
+          className={`crt-health-bar-fill ${isCritical ? 'critical' : ''}`}
+          style={{ width: `${percentage}%` }}
+          role="progressbar"
+          aria-valuenow={value}
+          aria-valuemin={stat.min}
+          aria-valuemax={stat.max}
+          aria-label={stat.label}
+        />
+      </div>
+      <span className="crt-health-value">{value}/{stat.max}</span>
+    </div>
+  );
+}
+
 /**
- * StatusBar - Displays current player state including health bar and inventory.
+ * StatusBar - Displays current player state: one gauge per stat the theme
+ * declares, active status effects with their turns left, the health of the
+ * enemy being fought, and the inventory.
  * 
  * Requirements: 5.5
  */
-export function StatusBar({ health, inventory, isGameOver }: StatusBarProps) {
-  const healthPercentage = Math.max(0, Math.min(100, health));
-  const isCritical = healthPercentage <= 30;
+export function StatusBar({ health, stats, theme, effects, encounter, inventory, isGameOver }: StatusBarProps) {
+  const pack = getTheme(theme);
+  const values = normalizeStats(pack, stats, health);
 
   return (
     <div className="crt-status-bar">
-      <div className="crt-status-section">
-        <span className="crt-status-label">HEALTH:</span>
-        <div className="crt-health-bar">
-          <div className="crt-health-bar-track">
-            <div 
-              className={`crt-health-bar-fill ${isCritical ? 'critical' : ''}`}
-              style={{ width: `${healthPercentage}%` }}
-              role="progressbar"
-              aria-valuenow={healthPercentage}
-              aria-valuemin={0}
-              aria-valuemax={100}
-              aria-label="Health"
-            />
+      {pack.stats.map((stat) => (
+        <div key={stat.id} className="crt-status-section">
+          <span className="crt-status-label">{stat.label}:</span>
+          <StatGauge stat={stat} value={values[stat.id]} />
+        </div>
+      ))}
+
+      {effects.length > 0 && (
+        <div className="crt-status-section">
+          <span className="crt-status-label">EFFECTS:</span>
+          <span className="crt-inventory-list">
+            {effects.map((effect, index) => (
+              <React.Fragment key={effect.id}>
+                {index > 0 && ', '}
+                <span
+                  className={`crt-effect ${Object.values(effect.tick).some((change) => change < 0) ? 'harmful' : ''}`}
+                  title={effect.description || undefined}
+                >
+                  {effect.name.toUpperCase()} ({effect.remaining})
+                </span>
+              </React.Fragment>
+            ))}
+          </span>
+        </div>
+      )}
+
+      {encounter && (
+        <div className="crt-status-section crt-enemy" title={encounter.enemy.description || undefined}>
+          <span className="crt-status-label">{encounter.enemy.name.toUpperCase()}:</span>
+          <div className="crt-health-bar">
+            <div className="crt-health-bar-track">
+              <div
+                className="crt-health-bar-fill enemy"
+                style={{ width: `${Math.round((encounter.enemy.hp / encounter.enemy.maxHp) * 100)}%` }}
+                role="progressbar"
+                aria-valuenow={encounter.enemy.hp}
+                aria-valuemin={0}
+                aria-valuemax={encounter.enemy.maxHp}
+                aria-label={`${encounter.enemy.name} health`}
+              />
+            </div>
+            <span className="crt-health-value">{encounter.enemy.hp}/{encounter.enemy.maxHp}</span>
           </div>
-          <span className="crt-health-value">{healthPercentage}/100</span>
         </div>
-      </div>
+      )}
 
       <div className="crt-status-section">
         <span className="crt-status-label">INVENTORY:</span>
         <span className="crt-inventory-list">
           {inventory.length > 0 
-            ? inventory.join(', ') 
+            ? inventory.map((item, index) => (
+                <React.Fragment key={item.id}>
+                  {index > 0 && ', '}
+                  <span
+                    className={[
+                      'crt-inventory-item',
+                      item.tags.includes('cursed') ? 'cursed' : '',
+                      item.charges === 0 ? 'spent' : '',
+                    ].filter(Boolean).join(' ')}
+                    title={item.description || undefined}
+                  >
+                    {formatItem(item)}
+                  </span>
+                </React.Fragment>
+              ))
             : '[empty]'
           }
         </span>
@@ -0,0 +1,19 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import { registerThemePacks, type ThemePack } from '@/lib/themes';
+
+interface ThemeRegistryProps {
+  /** Packs discovered on the server */
+  packs: ThemePack[];
+  children: ReactNode;
+}
+
+/**
+ * ThemeRegistry - Installs the server's theme packs in the browser.
+ * Registers during render so every component below it can look packs up.
+ */
+export function ThemeRegistry({ packs, children }: ThemeRegistryProps) {
+  registerThemePacks(packs);
+  return children;
+}
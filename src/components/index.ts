@@ -8,3 +8,4 @@ export { NarrativeLog } from './NarrativeLog';
 export { StatusBar } from './StatusBar';
 export { ASCIIRenderer } from './ASCIIRenderer';
 export { GameOverScreen } from './GameOverScreen';
+export { ThemeRegistry } from './ThemeRegistry';
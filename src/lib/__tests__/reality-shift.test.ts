@@ -0,0 +1,107 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { applyRealityShift } from '../reality-shift';
+import { createSessionState } from '../engine';
+import { registerThemePacks, ThemePackSchema } from '../themes';
+import type { RealityShift } from '../schema';
+import type { InventoryItem, SessionState } from '../save-schema';
+
+const pack = (id: string, displayName: string, stats: unknown[]) => ThemePackSchema.parse({
+  id,
+  displayName,
+  systemPrompt: 'You are the Dungeon Master.',
+  openingLine: 'Begin.',
+  helpText: 'help',
+  stats,
+});
+
+beforeAll(() => {
+  registerThemePacks([
+    pack('horror', 'HORROR', [
+      { id: 'health', label: 'HEALTH' },
+      { id: 'sanity', label: 'SANITY' },
+    ]),
+    pack('scifi', 'SCI-FI', [
+      { id: 'oxygen', label: 'OXYGEN', max: 50 },
+      { id: 'sanity', label: 'SANITY' },
+      { id: 'power', label: 'POWER', initial: 30 },
+    ]),
+  ]);
+});
+
+const item = (name: string, overrides: Partial<InventoryItem> = {}): InventoryItem => ({
+  id: name.toLowerCase().replace(/ /g, '-'),
+  name,
+  quantity: 1,
+  description: `A ${name.toLowerCase()}.`,
+  tags: [],
+  ...overrides,
+});
+
+/**
+ * A horror run carrying `inventory`, on 80 health and 60 sanity.
+ */
+function run(inventory: InventoryItem[]): SessionState {
+  return { ...createSessionState('horror', 'K3F9Q2MA'), health: 80, stats: { health: 80, sanity: 60 }, inventory };
+}
+
+/**
+ * A shift into sci-fi with the given item translations.
+ */
+function shift(item_translations: RealityShift['item_translations']): RealityShift {
+  return { narrative: 'The walls turn to steel.', visual_cue: 'none', sound_cue: 'none', location_name: '', item_translations };
+}
+
+describe('applyRealityShift', () => {
+  it('translates carried items and keeps what they were', () => {
+    const key = item('Rusty Key', { quantity: 2, tags: ['key'] });
+    const lamp = item('Oil Lamp', { charges: 3 });
+    const { state } = applyRealityShift(run([key, lamp]), shift([
+      { from: 'rusty key', to: 'Keycard', description: 'A magnetic keycard.' },
+      { from: 'Oil Lamp', to: 'Flashlight' },
+    ]), 'scifi');
+
+    expect(state.inventory).toEqual([
+      { ...key, id: 'keycard', name: 'Keycard', description: 'A magnetic keycard.' },
+      { ...lamp, id: 'flashlight', name: 'Flashlight' },
+    ]);
+  });
+
+  it('ignores translations of items not carried or onto another carried item', () => {
+    const inventory = [item('Rusty Key'), item('Keycard')];
+    const { state, notices } = applyRealityShift(run(inventory), shift([
+      { from: 'Silver Dagger', to: 'Laser Knife' },
+      { from: 'Rusty Key', to: 'Keycard' },
+    ]), 'scifi');
+
+    expect(state.inventory).toEqual(inventory);
+    expect(notices).toEqual(['► REALITY SHIFTED: SCI-FI']);
+  });
+
+  it('translates each item only once', () => {
+    const { state } = applyRealityShift(run([item('Rusty Key')]), shift([
+      { from: 'Rusty Key', to: 'Keycard' },
+      { from: 'Rusty Key', to: 'Access Chip' },
+    ]), 'scifi');
+
+    expect(state.inventory.map(({ name }) => name)).toEqual(['Keycard']);
+  });
+
+  it('announces and records the translations', () => {
+    const before = run([item('Rusty Key')]);
+    const { state, notices } = applyRealityShift(before, shift([{ from: 'Rusty Key', to: 'Keycard' }]), 'scifi');
+
+    expect(notices).toEqual(['► REALITY SHIFTED: SCI-FI', '► TRANSLATED: RUSTY KEY → KEYCARD']);
+    expect(state.history.slice(before.history.length)).toEqual([
+      { role: 'user', content: '[REALITY SHIFT: HORROR → SCI-FI]' },
+      { role: 'assistant', content: 'The walls turn to steel.\n[TRANSLATED: Rusty Key → Keycard]' },
+    ]);
+    expect(state.currentTheme).toBe('scifi');
+  });
+
+  it('keeps the primary stat share and fits the others to the new theme', () => {
+    const { state } = applyRealityShift(run([]), shift([]), 'scifi');
+
+    expect(state.health).toBe(40);
+    expect(state.stats).toEqual({ oxygen: 40, sanity: 60, power: 30 });
+  });
+});
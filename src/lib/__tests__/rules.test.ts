@@ -0,0 +1,103 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { enforceSavedState } from '../rules';
+import { registerThemePacks, ThemePackSchema } from '../themes';
+import { SavedGameStateSchema, type SavedGameState } from '../save-schema';
+
+beforeAll(() => {
+  registerThemePacks([ThemePackSchema.parse({
+    id: 'horror',
+    displayName: 'HORROR',
+    systemPrompt: 'You are the Dungeon Master.',
+    openingLine: 'Begin.',
+    helpText: 'help',
+    rules: { maxDamagePerTurn: 40, maxHealPerTurn: 15, maxItemsPerTurn: 3, maxInventorySize: 2, maxEffectDuration: 5, maxEnemyHp: 60 },
+    stats: [
+      { id: 'health', label: 'HEALTH' },
+      { id: 'sanity', label: 'SANITY', ending: 'madness' },
+    ],
+    endings: { victory: { title: 'THE VOID IS SEALED' } },
+  })]);
+});
+
+/**
+ * A save after `turns` turns, with whatever the test overrides.
+ */
+function save(turns: number, overrides: Record<string, unknown> = {}): SavedGameState {
+  return SavedGameStateSchema.parse({
+    health: 80,
+    stats: { health: 80, sanity: 60 },
+    inventory: [],
+    isGameOver: false,
+    history: Array.from({ length: turns }, (_, i) => [
+      { role: 'user', content: `command ${i}` },
+      { role: 'assistant', content: `narrative ${i}` },
+    ]).flat(),
+    narrativeEntries: [],
+    currentTheme: 'horror',
+    seed: 'K3F9Q2MA',
+    ...overrides,
+  });
+}
+
+const item = (name: string, quantity: number) => ({ id: name.toLowerCase(), name, quantity, description: '', tags: [] });
+
+describe('enforceSavedState', () => {
+  it('keeps a lawful save as it was', () => {
+    const state = enforceSavedState(save(2, { inventory: [item('Key', 1)] }));
+    expect(state).toMatchObject({
+      health: 80,
+      stats: { health: 80, sanity: 60 },
+      inventory: [item('Key', 1)],
+      isGameOver: false,
+      ending: null,
+      seed: 'K3F9Q2MA',
+      providerCalls: 0,
+    });
+  });
+
+  it('clamps every stat into its range', () => {
+    fc.assert(fc.property(fc.integer(), fc.integer(), (health, sanity) => {
+      const { stats } = enforceSavedState(save(3, { health, stats: { health, sanity, luck: 7 } }));
+      expect(Object.keys(stats)).toEqual(['health', 'sanity']);
+      for (const value of Object.values(stats)) {
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThanOrEqual(100);
+      }
+    }));
+  });
+
+  it('holds the inventory to the slots and the items the turns played could hand out', () => {
+    const state = enforceSavedState(save(2, {
+      inventory: [item('Gold', 999), item('Key', 5), item('Sword', 1)],
+      tally: { itemsFound: 999, damageTaken: 0 },
+    }));
+    expect(state.inventory).toEqual([item('Gold', 6)]);
+    expect(state.tally.itemsFound).toBe(6);
+  });
+
+  it('holds effects and the enemy to the theme bounds', () => {
+    const state = enforceSavedState(save(1, {
+      effects: [{ id: 'bleeding', name: 'Bleeding', description: '', remaining: 99, tick: { health: -500, luck: 3 } }],
+      encounter: {
+        enemy: { name: 'Wraith', description: '', hp: 500, maxHp: 500, attackMin: 80, attackMax: 90, behavior: 'aggressive' },
+        round: 2,
+      },
+    }));
+    expect(state.effects[0]).toMatchObject({ remaining: 5, tick: { health: -40 } });
+    expect(state.encounter?.enemy).toMatchObject({ hp: 60, maxHp: 60, attackMin: 40, attackMax: 40 });
+  });
+
+  it('works the ending out again instead of trusting it', () => {
+    const forged = enforceSavedState(save(2, {
+      isGameOver: true,
+      ending: { type: 'escape', title: 'FREE', epitaph: 'Walked out.', turns: 1, itemsFound: 0, damageTaken: 0 },
+    }));
+    expect(forged.ending).toBeNull();
+    expect(forged.isGameOver).toBe(false);
+
+    const mad = enforceSavedState(save(2, { stats: { health: 80, sanity: 0 } }));
+    expect(mad.ending).toMatchObject({ type: 'madness', turns: 2 });
+    expect(mad.isGameOver).toBe(true);
+  });
+});
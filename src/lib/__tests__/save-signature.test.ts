@@ -0,0 +1,58 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { signState, verifySnapshot } from '../save-signature';
+import { createSessionState } from '../engine';
+import { registerThemePacks, ThemePackSchema } from '../themes';
+import { SavedGameStateSchema, type SessionState } from '../save-schema';
+
+beforeAll(() => {
+  process.env.SAVE_SECRET = 'test-secret';
+  registerThemePacks([ThemePackSchema.parse({
+    id: 'horror',
+    displayName: 'HORROR',
+    systemPrompt: 'You are the Dungeon Master.',
+    openingLine: 'Begin.',
+    helpText: 'help',
+  })]);
+});
+
+/**
+ * What the client saves after mirroring a signed state: the state sent
+ * over the wire, its signature and the client's own fields.
+ */
+function saveOf(state: SessionState, signature: string) {
+  return SavedGameStateSchema.parse(JSON.parse(JSON.stringify({
+    ...state,
+    narrativeEntries: [],
+    sessionId: '00000000-0000-0000-0000-000000000000',
+    signature,
+  })));
+}
+
+describe('save signatures', () => {
+  let state: SessionState;
+  beforeAll(() => {
+    state = {
+      ...createSessionState('horror', 'K3F9Q2MA'),
+      health: 40,
+      stats: { health: 40 },
+      inventory: [{ id: 'key', name: 'Key', quantity: 1, description: 'Cold iron.', tags: ['key'], charges: undefined }],
+      history: [{ role: 'user', content: 'look' }, { role: 'assistant', content: 'Darkness.' }],
+    };
+  });
+
+  it('accepts a save of exactly the state the server signed', () => {
+    expect(verifySnapshot(saveOf(state, signState(state)))).toBe(true);
+  });
+
+  it('refuses a save whose state was edited', () => {
+    const saved = saveOf(state, signState(state));
+    expect(verifySnapshot({ ...saved, health: 100, stats: { health: 100 } })).toBe(false);
+    expect(verifySnapshot({ ...saved, inventory: [...saved.inventory, { ...saved.inventory[0], id: 'gold', name: 'Gold' }] })).toBe(false);
+    expect(verifySnapshot({ ...saved, history: [...saved.history, ...saved.history] })).toBe(false);
+  });
+
+  it('refuses a save without a signature', () => {
+    expect(verifySnapshot({ ...saveOf(state, signState(state)), signature: undefined })).toBe(false);
+    expect(verifySnapshot({ ...saveOf(state, signState(state)), signature: 'abc' })).toBe(false);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { createRng, rollDie } from '../random';
+import { resolveSkillCheck } from '../skill-check';
+
+const check = { skill: 'Nerve', difficulty: 12, stakes: 'Keep your grip or fall.' };
+
+describe('seeded dice', () => {
+  it('rolls the same numbers for the same seed', () => {
+    fc.assert(fc.property(fc.string(), (seed) => {
+      const first = createRng(seed);
+      const second = createRng(seed);
+      const rolls = (rng: () => number) => Array.from({ length: 10 }, () => rollDie(rng));
+      expect(rolls(first)).toEqual(rolls(second));
+    }));
+  });
+
+  it('rolls a known sequence for a known seed', () => {
+    const rng = createRng('K3F9Q2MA:4:check');
+    expect(Array.from({ length: 5 }, () => rollDie(rng))).toEqual([16, 12, 18, 5, 4]);
+  });
+
+  it('only rolls faces the die has', () => {
+    fc.assert(fc.property(fc.string(), fc.integer({ min: 1, max: 100 }), (seed, sides) => {
+      const roll = rollDie(createRng(seed), sides);
+      expect(roll).toBeGreaterThanOrEqual(1);
+      expect(roll).toBeLessThanOrEqual(sides);
+    }));
+  });
+});
+
+describe('resolveSkillCheck', () => {
+  it('succeeds when the roll meets the difficulty, unless it is a natural 1 or 20', () => {
+    fc.assert(fc.property(fc.string(), fc.integer({ min: 2, max: 20 }), (seed, difficulty) => {
+      const result = resolveSkillCheck({ ...check, difficulty }, createRng(seed));
+      expect(result.critical).toBe(result.roll === 1 || result.roll === 20);
+      expect(result.success).toBe(result.critical ? result.roll === 20 : result.roll >= difficulty);
+    }));
+  });
+
+  it('resolves the same turn the same way every time', () => {
+    const first = resolveSkillCheck(check, createRng('K3F9Q2MA:4:check'));
+    const second = resolveSkillCheck(check, createRng('K3F9Q2MA:4:check'));
+    expect(second).toEqual(first);
+  });
+
+  it('fails a natural 1 even against the lowest difficulty', () => {
+    const result = resolveSkillCheck({ ...check, difficulty: -5 }, () => 0);
+    expect(result).toMatchObject({ difficulty: 2, roll: 1, success: false, critical: true });
+  });
+
+  it('passes a natural 20 even against an impossible difficulty', () => {
+    const result = resolveSkillCheck({ ...check, difficulty: 99 }, () => 0.999);
+    expect(result).toMatchObject({ difficulty: 20, roll: 20, success: true, critical: true });
+  });
+});
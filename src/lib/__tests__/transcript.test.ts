@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { createRunExport, parseRunExport, RUN_EXPORT_VERSION } from '../transcript';
+import { SavedGameStateSchema } from '../save-schema';
+
+const run = SavedGameStateSchema.parse({
+  health: 70,
+  inventory: [],
+  isGameOver: false,
+  history: [{ role: 'user', content: 'look' }, { role: 'assistant', content: 'Darkness.' }],
+  narrativeEntries: [
+    { id: 'a', type: 'narrator', content: 'Darkness.', timestamp: 1000 },
+    { id: 'b', type: 'player', content: 'look', timestamp: 2000 },
+  ],
+  currentTheme: 'horror',
+  sessionId: '00000000-0000-0000-0000-000000000000',
+  signature: 'f00d',
+});
+
+describe('parseRunExport', () => {
+  it('reads back an exported run, without its session id', () => {
+    const result = parseRunExport(JSON.stringify(createRunExport(run)));
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data).toMatchObject({ startedAt: 1000, endedAt: 2000 });
+    expect(result.data.run.sessionId).toBeUndefined();
+    expect(result.data.run.signature).toBe('f00d');
+    expect(result.data.run.history).toEqual(run.history);
+  });
+
+  it('rejects a file that is not JSON', () => {
+    expect(parseRunExport('{ not json')).toEqual({ success: false, error: 'File is not valid JSON' });
+  });
+
+  it('rejects files of another format or version', () => {
+    const runExport = createRunExport(run);
+    expect(parseRunExport(JSON.stringify({ ...runExport, format: 'someone-else/save' }))).toMatchObject({
+      success: false,
+      error: expect.stringMatching(/^format: /),
+    });
+    expect(parseRunExport(JSON.stringify({ ...runExport, version: RUN_EXPORT_VERSION + 1 }))).toMatchObject({
+      success: false,
+      error: expect.stringMatching(/^version: /),
+    });
+  });
+
+  it('names the field that is wrong', () => {
+    const runExport = createRunExport(run);
+    const result = parseRunExport(JSON.stringify({ ...runExport, run: { ...runExport.run, health: 'full' } }));
+    expect(result).toMatchObject({ success: false, error: expect.stringMatching(/^run\.health: /) });
+  });
+
+  it('rejects unknown keys', () => {
+    const result = parseRunExport(JSON.stringify({ ...createRunExport(run), cheats: true }));
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects an empty object', () => {
+    const result = parseRunExport('{}');
+    expect(result).toMatchObject({ success: false, error: expect.stringMatching(/^format: /) });
+  });
+});
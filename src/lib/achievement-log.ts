@@ -0,0 +1,86 @@
+import { AchievementRecordSchema, type AchievementRecord } from './save-schema';
+import type { ThemeKey } from './themes';
+
+/**
+ * localStorage key holding unlocked achievements.
+ */
+const STORAGE_KEY = 'echoes-of-the-void:achievements';
+
+const emptyRecord = (): AchievementRecord => ({ unlocked: {}, themes: [] });
+
+/**
+ * Writes the record, ignoring storage failures.
+ */
+function write(record: AchievementRecord): boolean {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(record));
+    return true;
+  } catch (error) {
+    // Quota exceeded or storage disabled
+    console.warn('Failed to write achievements:', error);
+    return false;
+  }
+}
+
+/**
+ * AchievementLog utility for persisting unlocked achievements, and the
+ * protocols played, to localStorage so they survive across sessions.
+ * Corrupt data is treated as nothing unlocked rather than crashing the game.
+ */
+export const AchievementLog = {
+  /**
+   * Reads the unlocked achievements and protocols played.
+   *
+   * @returns The record, empty if nothing was stored yet
+   */
+  read: (): AchievementRecord => {
+    // Only run in browser environment
+    if (typeof window === 'undefined') return emptyRecord();
+
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return emptyRecord();
+
+    try {
+      const result = AchievementRecordSchema.safeParse(JSON.parse(raw));
+      if (result.success) return result.data;
+      console.warn('Discarding invalid achievements:', result.error.issues);
+    } catch (error) {
+      console.warn('Failed to parse achievements:', error);
+    }
+    return emptyRecord();
+  },
+
+  /**
+   * Marks an achievement as unlocked. Unlocking it again keeps the
+   * original date.
+   *
+   * @param id - The achievement id
+   * @param theme - The theme it was unlocked in
+   * @returns True if the record was written
+   */
+  unlock: (id: string, theme: ThemeKey): boolean => {
+    if (typeof window === 'undefined') return false;
+
+    const record = AchievementLog.read();
+    if (record.unlocked[id]) return true;
+    record.unlocked[id] = { unlockedAt: Date.now(), theme };
+    return write(record);
+  },
+
+  /**
+   * Remembers that a protocol was played.
+   *
+   * @param theme - The theme
+   * @returns How many different protocols have been played
+   */
+  addTheme: (theme: ThemeKey): number => {
+    const record = AchievementLog.read();
+    if (typeof window === 'undefined' || record.themes.includes(theme)) return record.themes.length;
+
+    record.themes.push(theme);
+    write(record);
+    return record.themes.length;
+  },
+};
+
+export default AchievementLog;
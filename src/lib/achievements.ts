@@ -0,0 +1,172 @@
+import type { EndingType } from './schema';
+import type { GameEvent } from './game-events';
+import {
+  AchievementDefinitionSchema,
+  listThemes,
+  type AchievementDefinition,
+  type AchievementMetric,
+  type ThemeKey,
+} from './themes';
+
+/**
+ * Achievements every theme offers.
+ */
+const BUILT_IN_ACHIEVEMENTS = AchievementDefinitionSchema.array().parse([
+  {
+    id: 'hoarder',
+    title: 'HOARDER',
+    description: 'Hold 5 items at once.',
+    on: 'inventory',
+    min: { itemsHeld: 5 },
+  },
+  {
+    id: 'false-start',
+    title: 'FALSE START',
+    description: 'Die on turn 1.',
+    on: 'ending',
+    ending: 'death',
+    max: { turns: 1 },
+  },
+  {
+    id: 'thick-skin',
+    title: 'THICK SKIN',
+    description: 'Take 30 damage in a single turn and live.',
+    on: 'damage',
+    min: { damage: 30, health: 1 },
+  },
+  {
+    id: 'long-haul',
+    title: 'THE LONG HAUL',
+    description: 'Survive 50 turns in one run.',
+    on: 'turn',
+    min: { turns: 50 },
+  },
+  {
+    id: 'victor',
+    title: 'AGAINST ALL ODDS',
+    description: 'Win a run.',
+    on: 'ending',
+    ending: 'victory',
+  },
+  {
+    id: 'escape-artist',
+    title: 'ESCAPE ARTIST',
+    description: 'Escape with your life.',
+    on: 'ending',
+    ending: 'escape',
+  },
+  {
+    id: 'reality-tourist',
+    title: 'REALITY TOURIST',
+    description: 'Play 3 different protocols.',
+    on: 'theme',
+    min: { themesPlayed: 3 },
+  },
+]);
+
+/**
+ * What an achievement is checked against when an event fires.
+ */
+export interface AchievementFacts extends Record<AchievementMetric, number> {
+  theme: ThemeKey;
+  /** How the run ended, on ending events */
+  ending?: EndingType;
+}
+
+/**
+ * Lists every achievement: the built-in ones, then each installed pack's
+ * own, scoped to that pack and namespaced by its id (e.g. "horror/survivor").
+ *
+ * @returns The achievement definitions
+ */
+export function listAchievements(): AchievementDefinition[] {
+  return [
+    ...BUILT_IN_ACHIEVEMENTS,
+    ...listThemes().flatMap((pack) => pack.achievements.map((achievement) => ({
+      ...achievement,
+      id: `${pack.id}/${achievement.id}`,
+      theme: achievement.theme ?? pack.id,
+    }))),
+  ];
+}
+
+/**
+ * Checks whether an event unlocks an achievement: the event, theme and
+ * ending must match and every metric must be within its bounds.
+ */
+function isUnlocked(achievement: AchievementDefinition, event: GameEvent, facts: AchievementFacts): boolean {
+  if (achievement.on !== event.type) return false;
+  if (achievement.theme && achievement.theme !== facts.theme) return false;
+  if (achievement.ending && achievement.ending !== facts.ending) return false;
+
+  const min = Object.entries(achievement.min) as [AchievementMetric, number][];
+  const max = Object.entries(achievement.max) as [AchievementMetric, number][];
+  return min.every(([metric, bound]) => facts[metric] >= bound)
+    && max.every(([metric, bound]) => facts[metric] <= bound);
+}
+
+/**
+ * Finds the achievements an event unlocks that weren't unlocked before.
+ *
+ * @param achievements - Every achievement definition
+ * @param event - What just happened
+ * @param facts - The game as it stands after the event
+ * @param unlocked - Ids already unlocked
+ * @returns The newly unlocked achievements
+ */
+export function checkAchievements(
+  achievements: AchievementDefinition[],
+  event: GameEvent,
+  facts: AchievementFacts,
+  unlocked: Record<string, unknown>
+): AchievementDefinition[] {
+  return achievements.filter((achievement) => !(achievement.id in unlocked) && isUnlocked(achievement, event, facts));
+}
+
+/**
+ * Draws the badge announcing an unlock, e.g.
+ *
+ *   ╔════════════════════════════╗
+ *   ║ ★ ACHIEVEMENT UNLOCKED ★   ║
+ *   ║                            ║
+ *   ║   HOARDER                  ║
+ *   ║   Hold 5 items at once.    ║
+ *   ╚════════════════════════════╝
+ *
+ * @param achievement - The unlocked achievement
+ * @returns The system entry text
+ */
+export function formatBadge(achievement: AchievementDefinition): string {
+  const lines = ['★ ACHIEVEMENT UNLOCKED ★', '', `  ${achievement.title.toUpperCase()}`, `  ${achievement.description}`];
+  const width = Math.max(...lines.map((line) => line.length)) + 4;
+  return [
+    `╔${'═'.repeat(width)}╗`,
+    ...lines.map((line) => `║ ${line.padEnd(width - 2)} ║`),
+    `╚${'═'.repeat(width)}╝`,
+  ].join('\n');
+}
+
+/**
+ * Lists achievements for the achievements command: unlocked ones first,
+ * then the rest available in the current theme.
+ *
+ * @param achievements - Every achievement definition
+ * @param unlocked - Ids already unlocked
+ * @param theme - The current theme, to hide other packs' locked achievements
+ * @returns The system entry text
+ */
+export function formatAchievements(
+  achievements: AchievementDefinition[],
+  unlocked: Record<string, unknown>,
+  theme: ThemeKey
+): string {
+  const earned = achievements.filter((achievement) => achievement.id in unlocked);
+  const locked = achievements.filter(
+    (achievement) => !(achievement.id in unlocked) && (!achievement.theme || achievement.theme === theme)
+  );
+  return [
+    `► ACHIEVEMENTS: ${earned.length}/${achievements.length}`,
+    ...earned.map((achievement) => `  [★] ${achievement.title.toUpperCase()} — ${achievement.description}`),
+    ...locked.map((achievement) => `  [ ] ${achievement.title.toUpperCase()} — ${achievement.description}`),
+  ].join('\n');
+}
@@ -1,4 +1,6 @@
-import type { VisualCue } from './schema';
+import type { VisualCue, Direction } from './schema';
+import type { WorldState } from './save-schema';
+import { getTheme, type ThemeKey } from './themes';
 
 /**
  * ASCII art mappings for visual cues in the game.
@@ -72,10 +74,12 @@ export const ASCII_ART: Record<VisualCue, string> = {
 /**
  * Gets the ASCII art string for a given visual cue.
  * @param cue - The visual cue to get art for
+ * @param theme - Theme pack whose custom art takes precedence, if given
  * @returns The ASCII art string, or empty string if cue is 'none'
  */
-export function getASCIIArt(cue: VisualCue): string {
-  return ASCII_ART[cue] || '';
+export function getASCIIArt(cue: VisualCue, theme?: ThemeKey): string {
+  if (cue === 'none') return '';
+  return (theme && getTheme(theme).asciiArt[cue]) || ASCII_ART[cue] || '';
 }
 
 /**
@@ -86,3 +90,123 @@ export function getASCIIArt(cue: VisualCue): string {
 export function hasASCIIArt(cue: VisualCue): boolean {
   return cue !== 'none' && ASCII_ART[cue] !== '';
 }
+
+/**
+ * Grid step per direction used when laying out the auto-map.
+ */
+const MAP_STEPS: Record<Direction, { dx: number; dy: number }> = {
+  north: { dx: 0, dy: -1 },
+  south: { dx: 0, dy: 1 },
+  east: { dx: 1, dy: 0 },
+  west: { dx: -1, dy: 0 },
+};
+
+/** Width of a room cell, e.g. "[@ 1]" */
+const MAP_CELL_WIDTH = 5;
+/** Horizontal distance between the starts of neighbouring cells */
+const MAP_CELL_STRIDE = 8;
+
+/**
+ * Renders an ASCII auto-map of explored locations.
+ * Visited rooms are numbered, known exits are drawn as corridors, rooms
+ * seen but not yet entered show as "?", and the player is marked with "@".
+ * Rooms that can't be placed on the grid (impossible geometry) are listed
+ * in the legend instead.
+ * 
+ * @param world - The remembered world state
+ * @returns The map with its legend, or empty string if nothing is known yet
+ */
+export function renderMap(world: WorldState): string {
+  const start = world.currentLocationId;
+  if (!start || !world.locations[start]) return '';
+
+  // Lay rooms out on a grid by walking exits outward from the player
+  const positions = new Map<string, { x: number; y: number }>();
+  const occupied = new Set<string>();
+  const order: string[] = [];
+  const offGrid: string[] = [];
+  const queue = [start];
+  positions.set(start, { x: 0, y: 0 });
+  occupied.add('0,0');
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    const location = world.locations[id];
+    order.push(id);
+    // Unexplored rooms are drawn but their exits aren't known
+    if (!location?.visited) continue;
+
+    const { x, y } = positions.get(id)!;
+    for (const [direction, targetId] of Object.entries(location.exits) as [Direction, string][]) {
+      if (positions.has(targetId) || !world.locations[targetId]) continue;
+      const step = MAP_STEPS[direction];
+      const key = `${x + step.dx},${y + step.dy}`;
+      if (occupied.has(key)) {
+        if (!offGrid.includes(targetId)) offGrid.push(targetId);
+        continue;
+      }
+      positions.set(targetId, { x: x + step.dx, y: y + step.dy });
+      occupied.add(key);
+      queue.push(targetId);
+    }
+  }
+
+  const coords = [...positions.values()];
+  const minX = Math.min(...coords.map((c) => c.x));
+  const maxX = Math.max(...coords.map((c) => c.x));
+  const minY = Math.min(...coords.map((c) => c.y));
+  const maxY = Math.max(...coords.map((c) => c.y));
+  const width = (maxX - minX) * MAP_CELL_STRIDE + MAP_CELL_WIDTH;
+  const rows: string[][] = Array.from({ length: (maxY - minY) * 2 + 1 }, () =>
+    Array.from({ length: width }, () => ' ')
+  );
+
+  const write = (row: number, col: number, text: string) => {
+    for (let i = 0; i < text.length; i++) rows[row][col + i] = text[i];
+  };
+
+  const numbers = new Map<string, number>();
+  const legend: string[] = [];
+  for (const id of order) {
+    const location = world.locations[id];
+    const { x, y } = positions.get(id)!;
+    const row = (y - minY) * 2;
+    const col = (x - minX) * MAP_CELL_STRIDE;
+
+    if (location.visited) {
+      const number = numbers.size + 1;
+      numbers.set(id, number);
+      const marker = id === start ? '@' : ' ';
+      write(row, col, `[${marker}${String(number).padStart(2)}]`);
+      legend.push(`${String(number).padStart(2)}. ${location.name}${id === start ? '  <- YOU ARE HERE' : ''}`);
+    } else {
+      write(row, col, '[ ? ]');
+    }
+
+    // Corridors are drawn from whichever side knows the exit, so one-way
+    // exits show too; a link both sides know is drawn onto the same cells twice
+    for (const [direction, targetId] of Object.entries(location.exits) as [Direction, string][]) {
+      const target = positions.get(targetId);
+      if (!target) continue;
+      if (direction === 'east' && target.x === x + 1 && target.y === y) {
+        write(row, col + MAP_CELL_WIDTH, '-'.repeat(MAP_CELL_STRIDE - MAP_CELL_WIDTH));
+      } else if (direction === 'west' && target.x === x - 1 && target.y === y) {
+        write(row, col - (MAP_CELL_STRIDE - MAP_CELL_WIDTH), '-'.repeat(MAP_CELL_STRIDE - MAP_CELL_WIDTH));
+      } else if (direction === 'south' && target.x === x && target.y === y + 1) {
+        write(row + 1, col + Math.floor(MAP_CELL_WIDTH / 2), '|');
+      } else if (direction === 'north' && target.x === x && target.y === y - 1) {
+        write(row - 1, col + Math.floor(MAP_CELL_WIDTH / 2), '|');
+      }
+    }
+  }
+
+  for (const id of offGrid.filter((id) => !positions.has(id))) {
+    legend.push(` ~. ${world.locations[id].name} (the paths there twist out of true)`);
+  }
+  if (order.some((id) => !world.locations[id].visited)) {
+    legend.push(' ?. Unexplored');
+  }
+
+  const grid = rows.map((row) => `  ${row.join('').trimEnd()}`).join('\n');
+  return `\n${grid}\n\n${legend.map((line) => `  ${line}`).join('\n')}\n`;
+}
@@ -0,0 +1,297 @@
+import type { EncounterStart } from './schema';
+import type { Encounter, Enemy, InventoryItem } from './save-schema';
+import type { NarrativeRequest } from './providers';
+import type { ParsedCommand } from './parser';
+import { COMBAT_ROUND_PROMPT } from './prompts';
+import { findItem } from './inventory';
+import { rollDie, type Rng } from './random';
+
+/**
+ * Die rolled for the player's damage, bare-handed or with a weapon.
+ */
+const UNARMED_DIE = 4;
+const WEAPON_DIE = 8;
+
+/**
+ * Number a d20 must meet or beat to escape; aggressive enemies give chase.
+ */
+const FLEE_DIFFICULTY = 10;
+const AGGRESSIVE_FLEE_PENALTY = 3;
+
+/**
+ * Share of its hit points below which a cowardly enemy runs.
+ */
+const COWARD_THRESHOLD = 0.3;
+
+/**
+ * Chance that an erratic enemy does nothing for a round.
+ */
+const ERRATIC_HESITATION = 0.35;
+
+/**
+ * What the player did this round. Commands that aren't combat verbs
+ * still take a round, during which the player doesn't fight back.
+ */
+export type CombatAction = 'attack' | 'defend' | 'flee' | 'use' | 'other';
+
+/**
+ * What the enemy did this round.
+ */
+export type EnemyAction = 'attack' | 'guard' | 'hesitate' | 'flee';
+
+/**
+ * How a round left the fight.
+ */
+export type CombatOutcome = 'ongoing' | 'victory' | 'escaped' | 'enemy_fled';
+
+/**
+ * One exchange of a fight, as resolved by the engine.
+ */
+export interface CombatRound {
+  /** Number of this round in the fight, from 1 */
+  round: number;
+  /** The enemy after the player's action */
+  enemy: Enemy;
+  action: CombatAction;
+  /** Item the player attacked with or used, if any */
+  item?: string;
+  /** Damage the player dealt */
+  dealt: number;
+  enemyAction: EnemyAction;
+  /** Damage the player took */
+  taken: number;
+  outcome: CombatOutcome;
+}
+
+/**
+ * Result of advancing the fight by a turn: the fight afterwards (null
+ * when there is none) and the system notices describing the exchange.
+ */
+export interface EncounterChange {
+  encounter: Encounter | null;
+  notices: string[];
+}
+
+/**
+ * How each outcome is reported to the Dungeon Master.
+ */
+const OUTCOME_LABELS: Record<CombatOutcome, string> = {
+  ongoing: 'The fight goes on',
+  victory: 'The enemy is defeated',
+  escaped: 'The player escaped',
+  enemy_fled: 'The enemy fled',
+};
+
+/**
+ * Starts a fight with the enemy the Dungeon Master described.
+ *
+ * @param start - The rule-checked encounter request
+ * @returns A fight at full enemy health, before its first round
+ */
+export function startEncounter(start: EncounterStart): Encounter {
+  return {
+    enemy: {
+      name: start.name,
+      description: start.description,
+      hp: start.hp,
+      maxHp: start.hp,
+      attackMin: Math.min(start.attack_min, start.attack_max),
+      attackMax: start.attack_max,
+      behavior: start.behavior,
+    },
+    round: 0,
+  };
+}
+
+/**
+ * Decides what the enemy does this round from its behavior.
+ */
+function enemyIntent({ enemy, round }: Encounter, rng: Rng): EnemyAction {
+  switch (enemy.behavior) {
+    case 'cowardly':
+      return enemy.hp <= enemy.maxHp * COWARD_THRESHOLD ? 'flee' : 'attack';
+    case 'defensive':
+      return round % 2 === 1 ? 'guard' : 'attack';
+    case 'erratic':
+      return rng() < ERRATIC_HESITATION ? 'hesitate' : 'attack';
+    default:
+      return 'attack';
+  }
+}
+
+/**
+ * Maps a parsed command to a combat action.
+ */
+function toCombatAction(command: ParsedCommand): CombatAction {
+  switch (command.verb) {
+    case 'attack':
+    case 'defend':
+    case 'flee':
+    case 'use':
+      return command.verb;
+    default:
+      return 'other';
+  }
+}
+
+/**
+ * Resolves one round of a fight. The player acts first: an attack rolls
+ * damage (a carried weapon hits harder, a guarding enemy takes half),
+ * defending halves the next hit and fleeing rolls a d20 to escape. Then,
+ * unless the fight is over, the enemy acts according to its behavior.
+ *
+ * @param encounter - The fight before the round
+ * @param command - The player's parsed command
+ * @param inventory - Items the player is carrying, for weapons
+ * @param rng - The random source (seeded, so rounds can be reproduced)
+ * @returns The resolved round
+ */
+export function resolveRound(
+  encounter: Encounter,
+  command: ParsedCommand,
+  inventory: InventoryItem[],
+  rng: Rng
+): CombatRound {
+  const { enemy } = encounter;
+  const intent = enemyIntent(encounter, rng);
+  const used = command.item ? findItem(inventory, command.item) : undefined;
+
+  // Using a weapon is attacking with it; attacking picks the named weapon or the first carried
+  let action = toCombatAction(command);
+  let weapon: InventoryItem | undefined;
+  if (action === 'use' && used?.tags.includes('weapon')) {
+    action = 'attack';
+    weapon = used;
+  } else if (action === 'attack') {
+    weapon = used?.tags.includes('weapon') ? used : inventory.find((item) => item.tags.includes('weapon'));
+  }
+
+  let dealt = 0;
+  if (action === 'attack') {
+    dealt = rollDie(rng, weapon ? WEAPON_DIE : UNARMED_DIE);
+    if (intent === 'guard') dealt = Math.floor(dealt / 2);
+  }
+  const hp = Math.max(0, enemy.hp - dealt);
+
+  const difficulty = FLEE_DIFFICULTY + (enemy.behavior === 'aggressive' ? AGGRESSIVE_FLEE_PENALTY : 0);
+  const escaped = action === 'flee' && rollDie(rng) >= difficulty;
+
+  let outcome: CombatOutcome = 'ongoing';
+  if (hp === 0) {
+    outcome = 'victory';
+  } else if (escaped) {
+    outcome = 'escaped';
+  } else if (intent === 'flee') {
+    outcome = 'enemy_fled';
+  }
+
+  let taken = 0;
+  if (outcome === 'ongoing' && intent === 'attack') {
+    taken = enemy.attackMin + Math.floor(rng() * (enemy.attackMax - enemy.attackMin + 1));
+    if (action === 'defend') taken = Math.floor(taken / 2);
+  }
+
+  return {
+    round: encounter.round + 1,
+    enemy: { ...enemy, hp },
+    action,
+    item: (weapon ?? used)?.name,
+    dealt,
+    enemyAction: intent,
+    taken,
+    outcome,
+  };
+}
+
+/**
+ * Formats a round for the log, one line per thing that happened,
+ * e.g. "► YOU HIT BONE CRAWLER: 6 DAMAGE (HP 24/30)".
+ *
+ * @param round - The resolved round
+ * @returns The system entry lines
+ */
+export function formatRound(round: CombatRound): string[] {
+  const name = round.enemy.name.toUpperCase();
+  const lines: string[] = [];
+
+  if (round.action === 'attack') {
+    const weapon = round.item ? ` WITH ${round.item.toUpperCase()}` : '';
+    lines.push(round.dealt > 0
+      ? `► YOU HIT ${name}${weapon}: ${round.dealt} DAMAGE (HP ${round.enemy.hp}/${round.enemy.maxHp})`
+      : `► ${name} BLOCKS YOUR ATTACK`);
+  } else if (round.action === 'defend') {
+    lines.push('► YOU BRACE FOR THE BLOW');
+  } else if (round.action === 'flee') {
+    lines.push(round.outcome === 'escaped' ? `► ESCAPED: ${name}` : '► ESCAPE FAILED');
+  }
+
+  if (round.outcome === 'victory') {
+    lines.push(`► DEFEATED: ${name}`);
+  } else if (round.outcome === 'enemy_fled') {
+    lines.push(`► ${name} FLEES`);
+  } else if (round.outcome === 'ongoing') {
+    if (round.enemyAction === 'attack') {
+      lines.push(round.taken > 0 ? `► ${name} HITS YOU: ${round.taken} DAMAGE` : `► ${name} ATTACKS BUT DOES NO HARM`);
+    } else if (round.enemyAction === 'guard') {
+      lines.push(`► ${name} GUARDS`);
+    } else {
+      lines.push(`► ${name} HESITATES`);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Advances the fight by a turn. A resolved round updates or ends it;
+ * otherwise the Dungeon Master may start one, unless one is under way.
+ *
+ * @param encounter - The fight before the turn, if any
+ * @param start - The rule-checked encounter request, if any
+ * @param round - The round fought this turn, if any
+ * @returns The fight after the turn and ENCOUNTER/round notices
+ */
+export function updateEncounter(
+  encounter: Encounter | null,
+  start?: EncounterStart,
+  round?: CombatRound
+): EncounterChange {
+  if (round) {
+    return {
+      encounter: round.outcome === 'ongoing' ? { enemy: round.enemy, round: round.round } : null,
+      notices: formatRound(round),
+    };
+  }
+  if (!encounter && start) {
+    const started = startEncounter(start);
+    return {
+      encounter: started,
+      notices: [`► ENCOUNTER: ${started.enemy.name.toUpperCase()} (HP ${started.enemy.hp})`],
+    };
+  }
+  return { encounter, notices: [] };
+}
+
+/**
+ * Builds the request that asks the Dungeon Master to narrate a resolved
+ * round. Repeats the turn's request so the context is the same, then adds
+ * what happened in the exchange.
+ *
+ * @param request - The turn's original request
+ * @param round - The resolved round
+ * @returns The request for the round's narrative
+ */
+export function buildRoundRequest(request: NarrativeRequest, round: CombatRound): NarrativeRequest {
+  const { enemy } = round;
+  const report = formatRound(round).map((line) => line.replace(/^► /, ''));
+  return {
+    ...request,
+    system: `${request.system}\n\n${COMBAT_ROUND_PROMPT}`,
+    prompt: `${request.prompt}
+
+COMBAT ROUND ${round.round} vs ${enemy.name}: ${enemy.description}
+${report.join('\n')}
+ENEMY HP: ${enemy.hp}/${enemy.maxHp}
+OUTCOME: ${OUTCOME_LABELS[round.outcome]}`,
+  };
+}
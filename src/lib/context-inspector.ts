@@ -0,0 +1,74 @@
+import type { AssembledContext } from './context';
+import type { NarrativeRequest } from './providers';
+
+/**
+ * Exactly what was sent to the provider in one call. A turn with a skill
+ * check makes two calls, recorded under the same turn number.
+ */
+export interface ContextDump {
+  sessionId: string;
+  /** Turn number; 0 is the prologue */
+  turn: number;
+  createdAt: number;
+  request: NarrativeRequest;
+  context: AssembledContext;
+}
+
+/**
+ * Dumps kept per session; older turns are forgotten.
+ */
+const MAX_DUMPS_PER_SESSION = 20;
+
+/**
+ * Sessions dumps are kept for; the least recently played is forgotten.
+ */
+const MAX_SESSIONS = 50;
+
+const dumps = new Map<string, ContextDump[]>();
+
+/**
+ * Whether turns are being recorded: always outside production, and in
+ * production only when CONTEXT_INSPECTOR=on.
+ */
+export function isInspectorEnabled(): boolean {
+  return process.env.CONTEXT_INSPECTOR === 'on' || process.env.NODE_ENV !== 'production';
+}
+
+/**
+ * Records what was sent for a turn, if the inspector is enabled.
+ *
+ * @param dump - The turn's request and assembled context
+ */
+export function recordContext(dump: ContextDump): void {
+  if (!isInspectorEnabled()) return;
+  const recorded = dumps.get(dump.sessionId) ?? [];
+  // Re-inserting keeps the map in order of last use
+  dumps.delete(dump.sessionId);
+  dumps.set(dump.sessionId, [...recorded, dump].slice(-MAX_DUMPS_PER_SESSION));
+
+  const oldest = dumps.keys().next().value;
+  if (dumps.size > MAX_SESSIONS && oldest !== undefined) {
+    dumps.delete(oldest);
+  }
+}
+
+/**
+ * Forgets a session's dumps, once its run has ended.
+ *
+ * @param sessionId - The session
+ */
+export function forgetContext(sessionId: string): void {
+  dumps.delete(sessionId);
+}
+
+/**
+ * Gets the recorded dumps for a session.
+ *
+ * @param sessionId - The session to inspect
+ * @param turn - Only return this turn, if given
+ * @returns Matching dumps, oldest first
+ */
+export function getContextDumps(sessionId: string, turn?: number): ContextDump[] {
+  const recorded = dumps.get(sessionId) ?? [];
+  return turn === undefined ? recorded : recorded.filter((dump) => dump.turn === turn);
+}
@@ -1,37 +1,365 @@
 import type { ConversationTurn } from '@/types/game';
+import type { WorldState, InventoryItem, MemoryState, ActiveEffect, Encounter, Quest } from './save-schema';
+import type { GenerateNarrativeInput } from './narrative';
+import { getCurrentLocation } from './world';
+import { factsWithinBudget, FACTS_TOKEN_BUDGET, RECENT_HISTORY_MESSAGES } from './memory';
+import { getTheme, type ThemeKey } from './themes';
+import { formatStat, normalizeStats, primaryStat, statDanger } from './stats';
+import { formatTick } from './effects';
+import { describeNpc, relevantNpcs } from './npcs';
+import { describeQuest } from './quests';
+import { isEndingAllowed } from './endings';
+import { estimateTokens, keepHead, keepTail } from './tokens';
 
 /**
  * Player state information used for building AI context.
  */
 export interface PlayerState {
   health: number;
-  inventory: string[];
+  stats?: Record<string, number>;
+  effects?: ActiveEffect[];
+  encounter?: Encounter | null;
+  inventory: InventoryItem[];
 }
 
 /**
- * Builds the context string for the AI Dungeon Master.
- * Includes the last 5 turns of conversation history and current player state.
- * 
+ * One part of the Dungeon Master's context.
+ * Sections appear in registration order; when the whole context is over
+ * budget, the lowest-priority sections are trimmed (then dropped) first.
+ */
+export interface ContextSection {
+  id: string;
+  /** Higher priority sections are cut last */
+  priority: number;
+  /** Most tokens this section may use */
+  budget: number;
+  /**
+   * Renders the section within a token budget.
+   * Returns an empty string when there is nothing to say.
+   */
+  build: (input: GenerateNarrativeInput, budget: number) => string;
+}
+
+/**
+ * What happened to a section during assembly, for the context inspector.
+ */
+export interface ContextSectionReport {
+  id: string;
+  priority: number;
+  budget: number;
+  tokens: number;
+  /** Cut down to fit the overall budget */
+  trimmed: boolean;
+  /** Left out entirely to fit the overall budget */
+  dropped: boolean;
+  text: string;
+}
+
+/**
+ * An assembled context and how each section fared.
+ */
+export interface AssembledContext {
+  text: string;
+  tokens: number;
+  budget: number;
+  sections: ContextSectionReport[];
+}
+
+/**
+ * Token budget for the whole context. Override with CONTEXT_TOKEN_BUDGET.
+ */
+export const CONTEXT_TOKEN_BUDGET = Number(process.env.CONTEXT_TOKEN_BUDGET) || 2000;
+
+/**
+ * Sections squeezed below this many tokens are dropped rather than mangled.
+ */
+const MIN_SECTION_TOKENS = 24;
+
+/**
+ * Describes a carried item with the details the Dungeon Master needs
+ * to respect it (quantity, tags, charges, durability).
+ */
+function describeForContext(item: InventoryItem): string {
+  const details = [
+    ...item.tags,
+    item.charges !== undefined ? `${item.charges} charges` : '',
+    item.durability !== undefined ? `durability ${item.durability}` : '',
+  ].filter(Boolean);
+  const quantity = item.quantity > 1 ? `${item.quantity}x ` : '';
+  return `${quantity}${item.name}${details.length > 0 ? ` (${details.join(', ')})` : ''}`;
+}
+
+/**
+ * Describes the player's stats, status effects, the fight they are in and
+ * their inventory.
+ *
+ * @param playerState - Current player stats, effects, fight and inventory
+ * @param theme - Active theme, declares the stats
+ * @returns Formatted player state section
+ */
+export function buildPlayerContext(playerState: PlayerState, theme?: ThemeKey): string {
+  const pack = getTheme(theme);
+  const stats = normalizeStats(pack, playerState.stats, playerState.health);
+  const statLines = pack.stats.map((stat) => {
+    const value = stats[stat.id];
+    const danger = statDanger(stat, value);
+    const note = danger >= 1 ? ' (FATAL)' : danger >= 0.7 ? ' (CRITICAL - describe their weakened state)' : '';
+    return `- ${stat.label} [${stat.id}]: ${formatStat(stat, value)}${note}`;
+  });
+  const effects = (playerState.effects ?? []).map((effect) => {
+    const tick = formatTick(pack, effect.tick);
+    return `${effect.name} (${effect.remaining} turns left${tick ? `, ${tick} per turn` : ''})`;
+  });
+  const enemy = playerState.encounter?.enemy;
+  const lines = [
+    '## CURRENT PLAYER STATE',
+    ...statLines,
+    `- Effects: ${effects.length > 0 ? `${effects.join(', ')} - weave them into the narrative` : 'None'}`,
+    ...(enemy ? [`- Fighting: ${enemy.name} (HP ${enemy.hp}/${enemy.maxHp}, ${enemy.behavior})`] : []),
+    `- Inventory: ${playerState.inventory.length > 0 ? playerState.inventory.map(describeForContext).join(', ') : 'Empty'}`,
+  ];
+  if (statLines.some((line) => line.endsWith('(FATAL)'))) {
+    lines.push('- STATUS: DEAD - Describe their final moments poetically');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Describes the remembered map so movement stays consistent across turns.
+ *
+ * @param world - The world state
+ * @returns Formatted world section, or empty string before the first scene
+ */
+export function buildWorldContext(world: WorldState): string {
+  const current = getCurrentLocation(world);
+  if (!current) return '';
+
+  const exits = Object.entries(current.exits).map(([direction, id]) => {
+    const target = world.locations[id];
+    return `${direction} → ${target?.name ?? id} [${id}]${target?.visited ? '' : ' (unexplored)'}`;
+  });
+  const known = Object.values(world.locations).map(
+    (location) => `${location.name} [${location.id}]${location.visited ? '' : ' (unexplored)'}`
+  );
+
+  return `## WORLD STATE
+- Current location: ${current.name} [${current.id}]
+- Known exits: ${exits.length > 0 ? exits.join('; ') : 'None yet'}
+- Known locations: ${known.join(', ')}
+- Keep this geography consistent. Reuse these ids in world_update; moving through a known exit leads to that exit's location.`;
+}
+
+/**
+ * Recalls what happened before the recent history window.
+ * Pinned facts get up to a third of the budget; the summary keeps its
+ * most recent part within the rest.
+ *
+ * @param memory - Running summary and pinned facts
+ * @param budget - Token budget for the section
+ * @returns Formatted memory section, or empty string if nothing is remembered yet
+ */
+export function buildMemoryContext(memory: MemoryState, budget: number): string {
+  const facts = factsWithinBudget(memory.facts, Math.min(FACTS_TOKEN_BUDGET, Math.floor(budget / 3)));
+  if (!memory.summary && facts.length === 0) return '';
+
+  const factTokens = estimateTokens(facts.join('\n'));
+  const summary = keepTail(memory.summary, budget - factTokens - 20) || 'The journey has only just begun.';
+  const parts = [`## STORY SO FAR\n${summary}`];
+  if (facts.length > 0) {
+    parts.push(`## PINNED FACTS\n${facts.map((fact) => `- ${fact}`).join('\n')}\n- Stay consistent with these facts.`);
+  }
+  return parts.join('\n\n');
+}
+
+/**
+ * Points out state changes from the previous turn that were rejected.
+ *
+ * @param corrections - Correction hints from reconciliation
+ * @returns Formatted corrections section, or empty string if there are none
+ */
+export function buildCorrectionsContext(corrections: string[]): string {
+  if (corrections.length === 0) return '';
+
+  return `## CONTINUITY CORRECTIONS
+${corrections.map((correction) => `- ${correction}`).join('\n')}
+- These changes were NOT applied. Only remove or change items listed in the player's inventory, using their exact names.`;
+}
+
+/**
+ * Replays the turns not yet folded into the summary (at least the last
+ * 5 turns), dropping the oldest messages that don't fit the budget.
+ *
  * @param history - The full conversation history
- * @param playerState - Current player health and inventory
- * @returns Formatted context string for the AI prompt
+ * @param memory - Long-term memory, if any, to know what is already summarized
+ * @param budget - Token budget for the section
+ * @returns Formatted history section
  */
-export function buildContext(
+export function buildHistoryContext(
   history: ConversationTurn[],
-  playerState: PlayerState
+  memory: MemoryState | undefined,
+  budget: number
 ): string {
-  // Last 5 turns = 10 messages (user + assistant pairs)
-  const recentHistory = history.slice(-10);
+  const start = memory
+    ? Math.min(memory.summarizedThrough, history.length - RECENT_HISTORY_MESSAGES)
+    : history.length - RECENT_HISTORY_MESSAGES;
+  const lines: string[] = [];
+  let tokens = estimateTokens('## RECENT HISTORY');
+
+  for (const turn of history.slice(Math.max(0, start)).reverse()) {
+    const line = `${turn.role.toUpperCase()}: ${turn.content}`;
+    tokens += estimateTokens(line);
+    if (tokens > budget) break;
+    lines.unshift(line);
+  }
+  return `## RECENT HISTORY\n${lines.join('\n')}`;
+}
+
+/**
+ * Reminds the Dungeon Master of the characters in play: those at the
+ * player's location, seen lately or named in recent history.
+ *
+ * @param input - The turn input (characters, map and history)
+ * @returns Formatted characters section, or empty string if none are relevant
+ */
+export function buildNpcContext(input: GenerateNarrativeInput): string {
+  const { world } = input;
+  if (!input.npcs || !world) return '';
+  const npcs = relevantNpcs(input.npcs, world, input.history);
+  if (npcs.length === 0) return '';
+  return `## CHARACTERS
+${npcs.map((npc) => `- ${describeNpc(npc, world)}`).join('\n')}
+Keep them consistent and use their exact names in npc_updates.`;
+}
+
+/**
+ * Keeps the story on track with the objectives the player is pursuing.
+ *
+ * @param quests - The quest log
+ * @returns Formatted objectives section, or empty string if none are open
+ */
+export function buildQuestContext(quests: Quest[]): string {
+  const active = quests.filter((quest) => quest.status === 'active');
+  if (active.length === 0) return '';
+  return `## ACTIVE OBJECTIVES
+${active.map((quest) => `- ${describeQuest(quest)}`).join('\n')}
+- Steer the story towards them. Record progress, completion or failure in quest_updates using these ids.`;
+}
+
+/**
+ * Tells the Dungeon Master the bounds the rules engine will enforce,
+ * so it doesn't narrate changes that will be clamped.
+ *
+ * @param input - The turn input (theme selects the pack)
+ * @returns Formatted rules section
+ */
+export function buildRulesContext(input: GenerateNarrativeInput): string {
+  const pack = getTheme(input.theme);
+  const { rules, visualCues, soundCues } = pack;
+  const others = pack.stats.slice(1).map((stat) => stat.id);
+  const endings = (['victory', 'escape'] as const)
+    .filter((type) => isEndingAllowed(pack, type))
+    .map((type) => `${type} when ${pack.endings[type]?.condition}`);
+  return `## RULES OF THIS REALITY
+- health_change affects ${primaryStat(pack).label}.${others.length > 0 ? ` Use stat_changes for ${others.join(', ')}.` : ''}
+- A single turn deals at most ${rules.maxDamagePerTurn} damage and heals at most ${rules.maxHealPerTurn}; other stats move within the same bounds.
+- Hand out at most ${rules.maxItemsPerTurn} items per turn; the player can carry ${rules.maxInventorySize} different items.
+- The dead cannot be healed.
+- Status effects last at most ${rules.maxEffectDuration} turns; their ticks are applied automatically.
+- Enemies start with at most ${rules.maxEnemyHp} HP and hit for at most ${rules.maxDamagePerTurn}.
+- Visual cues: ${visualCues.join(', ')}. Sound cues: ${soundCues.join(', ')}.
+- Endings: ${[...endings, 'madness or death when the story destroys the player'].join('; ')}. Running out of a stat ends the run by itself.`;
+}
+
+/**
+ * Registered context sections, in the order they appear in the prompt.
+ */
+const CONTEXT_SECTIONS: ContextSection[] = [
+  { id: 'rules', priority: 40, budget: 200, build: (input) => buildRulesContext(input) },
+  { id: 'player', priority: 100, budget: 250, build: (input) => buildPlayerContext(input.playerState, input.theme) },
+  { id: 'world', priority: 70, budget: 300, build: (input) => (input.world ? buildWorldContext(input.world) : '') },
+  { id: 'npcs', priority: 75, budget: 250, build: (input) => buildNpcContext(input) },
+  { id: 'quests', priority: 85, budget: 200, build: (input) => buildQuestContext(input.quests ?? []) },
+  {
+    id: 'memory',
+    priority: 50,
+    budget: 450,
+    build: (input, budget) => (input.memory ? buildMemoryContext(input.memory, budget) : ''),
+  },
+  { id: 'corrections', priority: 80, budget: 200, build: (input) => buildCorrectionsContext(input.corrections ?? []) },
+  {
+    id: 'history',
+    priority: 90,
+    budget: 1200,
+    build: (input, budget) => buildHistoryContext(input.history, input.memory, budget),
+  },
+];
+
+/**
+ * Registers an extra context section, or replaces one with the same id.
+ *
+ * @param section - The section to add
+ */
+export function registerContextSection(section: ContextSection): void {
+  const index = CONTEXT_SECTIONS.findIndex((existing) => existing.id === section.id);
+  if (index === -1) {
+    CONTEXT_SECTIONS.push(section);
+  } else {
+    CONTEXT_SECTIONS[index] = section;
+  }
+}
+
+/**
+ * Renders a section within a budget, hard-cutting anything that overruns it.
+ */
+function renderSection(section: ContextSection, input: GenerateNarrativeInput, budget: number): string {
+  return keepHead(section.build(input, budget).trim(), budget);
+}
+
+/**
+ * Assembles the Dungeon Master's context from the registered sections.
+ * Each section is held to its own budget; if the total is still over the
+ * overall budget, sections are trimmed lowest priority first, and dropped
+ * when there is too little room left to say anything useful.
+ *
+ * @param input - The turn input
+ * @param budget - Overall token budget
+ * @returns The context text and a report on every section
+ */
+export function assembleContext(input: GenerateNarrativeInput, budget = CONTEXT_TOKEN_BUDGET): AssembledContext {
+  const rendered = CONTEXT_SECTIONS.map((section) => {
+    const text = renderSection(section, input, section.budget);
+    const report: ContextSectionReport = {
+      id: section.id,
+      priority: section.priority,
+      budget: section.budget,
+      tokens: estimateTokens(text),
+      trimmed: false,
+      dropped: false,
+      text,
+    };
+    return { section, report };
+  });
+
+  let total = rendered.reduce((sum, { report }) => sum + report.tokens, 0);
+  const byPriority = [...rendered].sort((a, b) => a.section.priority - b.section.priority);
+
+  for (const { section, report } of byPriority) {
+    if (total <= budget) break;
+    if (!report.text) continue;
 
-  const stateContext = `
-## CURRENT PLAYER STATE
-- Health: ${playerState.health}/100 ${playerState.health <= 30 ? '(CRITICAL - describe their weakened state)' : ''}
-- Inventory: ${playerState.inventory.length > 0 ? playerState.inventory.join(', ') : 'Empty'}
-${playerState.health <= 0 ? '- STATUS: DEAD - Describe their final moments poetically' : ''}
+    const allowed = report.tokens - (total - budget);
+    const text = allowed >= MIN_SECTION_TOKENS ? renderSection(section, input, allowed) : '';
+    const tokens = estimateTokens(text);
 
-## RECENT HISTORY
-${recentHistory.map(turn => `${turn.role.toUpperCase()}: ${turn.content}`).join('\n')}
-`;
+    total += tokens - report.tokens;
+    Object.assign(report, { text, tokens, trimmed: text !== '', dropped: text === '' });
+  }
 
-  return stateContext;
+  const sections = rendered.map(({ report }) => report);
+  return {
+    text: sections.map((section) => section.text).filter(Boolean).join('\n\n'),
+    tokens: total,
+    budget,
+    sections,
+  };
 }
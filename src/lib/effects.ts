@@ -0,0 +1,143 @@
+import type { EffectApply } from './schema';
+import type { ActiveEffect } from './save-schema';
+import type { ThemePack } from './themes';
+import type { Stats } from './stats';
+import { toItemId } from './inventory';
+
+/**
+ * Result of changing the active effects: the new effects plus the system
+ * notices and corrections describing what happened.
+ */
+export interface EffectChange {
+  effects: ActiveEffect[];
+  notices: string[];
+  /** Mistakes to point out to the Dungeon Master next turn */
+  corrections: string[];
+}
+
+/**
+ * Result of advancing effects by a turn: the stat changes they cause too.
+ */
+export interface EffectTick extends EffectChange {
+  changes: Stats;
+}
+
+/**
+ * Formats a per-turn stat change, e.g. "HEALTH -3, SANITY +2".
+ *
+ * @param pack - The theme pack, for stat labels
+ * @param tick - Stat change by stat id
+ * @returns The formatted change, or an empty string for none
+ */
+export function formatTick(pack: ThemePack, tick: Stats): string {
+  return Object.entries(tick)
+    .filter(([, change]) => change !== 0)
+    .map(([id, change]) => {
+      const label = pack.stats.find((stat) => stat.id === id)?.label ?? id.toUpperCase();
+      return `${label} ${change > 0 ? '+' : ''}${change}`;
+    })
+    .join(', ');
+}
+
+/**
+ * Formats turns left, e.g. "1 TURN" or "3 TURNS".
+ */
+function turnsLeft(remaining: number): string {
+  return `${remaining} TURN${remaining === 1 ? '' : 'S'}`;
+}
+
+/**
+ * Starts effects. Applying an effect that is already active refreshes it:
+ * the longer duration wins and the new tick replaces the old one.
+ *
+ * @param effects - Active effects
+ * @param adds - Effects to start
+ * @returns The new effects and AFFLICTED notices
+ */
+export function addEffects(effects: ActiveEffect[], adds: EffectApply[] = []): EffectChange {
+  const next = [...effects];
+  const notices: string[] = [];
+
+  for (const add of adds) {
+    const id = toItemId(add.name);
+    const index = next.findIndex((effect) => effect.id === id);
+    const existing = index >= 0 ? next[index] : undefined;
+    const effect: ActiveEffect = {
+      id,
+      name: add.name,
+      description: add.description ?? existing?.description ?? '',
+      remaining: Math.max(add.duration, existing?.remaining ?? 0),
+      tick: add.tick ?? existing?.tick ?? {},
+    };
+
+    if (existing) {
+      next[index] = effect;
+    } else {
+      next.push(effect);
+    }
+    notices.push(`► AFFLICTED: ${add.name.toUpperCase()} (${turnsLeft(effect.remaining)})`);
+  }
+
+  return { effects: next, notices, corrections: [] };
+}
+
+/**
+ * Ends effects early. Ending an effect the player doesn't have is
+ * rejected with a correction.
+ *
+ * @param effects - Active effects
+ * @param names - Names of the effects to end
+ * @returns The new effects, CURED notices and corrections
+ */
+export function removeEffects(effects: ActiveEffect[], names: string[] = []): EffectChange {
+  let next = effects;
+  const notices: string[] = [];
+  const corrections: string[] = [];
+
+  for (const name of names) {
+    const id = toItemId(name);
+    const effect = next.find((active) => active.id === id);
+    if (!effect) {
+      const active = next.length > 0 ? next.map((active) => active.name).join(', ') : 'none';
+      corrections.push(`You ended "${name}", but the player wasn't affected by it. Active effects: ${active}.`);
+      continue;
+    }
+    next = next.filter((active) => active.id !== id);
+    notices.push(`► CURED: ${effect.name.toUpperCase()}`);
+  }
+
+  return { effects: next, notices, corrections };
+}
+
+/**
+ * Advances every effect by one turn: collects their stat ticks and counts
+ * their duration down, expiring effects that run out.
+ *
+ * @param pack - The theme pack, for stat labels in notices
+ * @param effects - Effects active at the start of the turn
+ * @returns The remaining effects, the summed stat changes and tick/expiry notices
+ */
+export function tickEffects(pack: ThemePack, effects: ActiveEffect[]): EffectTick {
+  const changes: Stats = {};
+  const remaining: ActiveEffect[] = [];
+  const notices: string[] = [];
+
+  for (const effect of effects) {
+    for (const [id, change] of Object.entries(effect.tick)) {
+      changes[id] = (changes[id] ?? 0) + change;
+    }
+
+    const tick = formatTick(pack, effect.tick);
+    const left = effect.remaining - 1;
+    if (tick) {
+      notices.push(`► ${effect.name.toUpperCase()}: ${tick}${left > 0 ? ` (${turnsLeft(left)} LEFT)` : ''}`);
+    }
+    if (left > 0) {
+      remaining.push({ ...effect, remaining: left });
+    } else {
+      notices.push(`► EXPIRED: ${effect.name.toUpperCase()}`);
+    }
+  }
+
+  return { effects: remaining, changes, notices, corrections: [] };
+}
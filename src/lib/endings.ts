@@ -0,0 +1,79 @@
+import type { EndingSignal, EndingType } from './schema';
+import type { RunEnding, RunTally } from './save-schema';
+import type { StatDefinition, ThemePack } from './themes';
+
+/**
+ * End screen headlines for packs that don't name their endings.
+ */
+const DEFAULT_ENDING_TITLES: Record<EndingType, string> = {
+  victory: 'THE VOID RELENTS',
+  escape: 'YOU ESCAPE THE VOID',
+  madness: 'THE VOID TAKES YOUR MIND',
+  death: 'THE VOID CLAIMS YOU',
+};
+
+/**
+ * Whether the Dungeon Master may end a run this way. Madness and death
+ * are always possible; victory and escape only when the pack describes
+ * when they happen.
+ *
+ * @param pack - The theme pack
+ * @param type - The ending
+ * @returns True if the ending is allowed
+ */
+export function isEndingAllowed(pack: ThemePack, type: EndingType): boolean {
+  return type === 'madness' || type === 'death' || pack.endings[type]?.condition !== undefined;
+}
+
+/**
+ * Headline of an ending, e.g. "THE VOID CLAIMS YOU".
+ *
+ * @param pack - The theme pack, which may name its endings
+ * @param type - The ending
+ * @returns The title
+ */
+export function endingTitle(pack: ThemePack, type: EndingType): string {
+  return pack.endings[type]?.title ?? DEFAULT_ENDING_TITLES[type];
+}
+
+/**
+ * Works out whether the run ended this turn. A stat at its death boundary
+ * ends it the way that stat kills (death or madness), keeping the Dungeon
+ * Master's epitaph if it wrote one; otherwise the run ends only if the
+ * Dungeon Master signalled an ending.
+ *
+ * @param pack - The theme pack
+ * @param fatal - The stat that killed the player, if any
+ * @param signal - The ending from the response, if any
+ * @param turns - Turns taken, counting this one
+ * @param tally - Running totals, counting this turn
+ * @returns The ending, or null while the run goes on
+ */
+export function endRun(
+  pack: ThemePack,
+  fatal: StatDefinition | undefined,
+  signal: EndingSignal | undefined,
+  turns: number,
+  tally: RunTally
+): RunEnding | null {
+  const type = fatal?.ending ?? signal?.type;
+  if (!type) return null;
+
+  return {
+    type,
+    title: endingTitle(pack, type),
+    epitaph: signal?.epitaph ?? `${fatal?.label ?? 'Your strength'} gave out on turn ${turns}.`,
+    turns,
+    ...tally,
+  };
+}
+
+/**
+ * Formats an ending for the log, e.g. "► THE END: THE VOID CLAIMS YOU".
+ *
+ * @param ending - How the run ended
+ * @returns The system entry text
+ */
+export function formatEnding(ending: RunEnding): string {
+  return `► THE END: ${ending.title}`;
+}
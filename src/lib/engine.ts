@@ -0,0 +1,223 @@
+import type { StructuredResponse } from './schema';
+import type { SessionState } from './save-schema';
+import type { GenerateNarrativeInput } from './narrative';
+import { getTheme, type ThemeKey } from './themes';
+import { INITIAL_WORLD, updateWorld } from './world';
+import { parseCommand } from './parser';
+import { addItems, removeItems, updateItems } from './inventory';
+import { reconcileRemovals, reconcileItemUpdates } from './reconcile';
+import { INITIAL_MEMORY, pinFacts } from './memory';
+import { applyStatChanges, fatalStat, initialStats, normalizeStats, primaryStat } from './stats';
+import { addEffects, removeEffects, tickEffects } from './effects';
+import { formatRoll, type ResolvedCheck } from './skill-check';
+import { formatRound, updateEncounter, type CombatRound } from './combat';
+import { createSeed } from './random';
+import { touchNpc, updateNpcs } from './npcs';
+import { updateQuests } from './quests';
+import { endRun, formatEnding } from './endings';
+import { clampChange } from './rules';
+
+/**
+ * History marker for the turn that generated the prologue.
+ */
+export const START_GAME_COMMAND = '__START_GAME__';
+
+/**
+ * Result of resolving a turn: the new state and the system notices
+ * describing what changed.
+ */
+export interface TurnResult {
+  state: SessionState;
+  notices: string[];
+}
+
+/**
+ * What the engine itself decided during a turn, before the Dungeon Master
+ * narrated it.
+ */
+export interface TurnResolution {
+  /** Skill check rolled this turn; the response narrates its outcome */
+  check?: ResolvedCheck;
+  /** Combat round fought this turn; the response narrates the exchange */
+  round?: CombatRound;
+  /** Id of the character the player talked to this turn */
+  talkedTo?: string;
+}
+
+/**
+ * Creates the state of a brand new run.
+ *
+ * @param theme - The run's theme
+ * @param seed - The run seed, to replay a run; a new one by default
+ * @returns Stats at their initial values, empty inventory, no history
+ */
+export function createSessionState(theme: ThemeKey, seed = createSeed()): SessionState {
+  const pack = getTheme(theme);
+  const stats = initialStats(pack);
+  return {
+    health: stats[primaryStat(pack).id],
+    stats,
+    effects: [],
+    encounter: null,
+    seed,
+    npcs: {},
+    quests: [],
+    inventory: [],
+    isGameOver: false,
+    tally: { itemsFound: 0, damageTaken: 0 },
+    ending: null,
+    world: INITIAL_WORLD,
+    history: [],
+    memory: INITIAL_MEMORY,
+    corrections: [],
+    providerCalls: 0,
+    currentTheme: theme,
+  };
+}
+
+/**
+ * Builds the Dungeon Master input for a turn from the session's own state.
+ *
+ * @param state - The authoritative session state
+ * @param command - The player's command (or the theme's opening line)
+ * @returns Input for the narrative request
+ */
+export function toNarrativeInput(state: SessionState, command: string): GenerateNarrativeInput {
+  return {
+    command,
+    history: state.history,
+    playerState: {
+      health: state.health,
+      stats: state.stats,
+      effects: state.effects,
+      encounter: state.encounter,
+      inventory: state.inventory,
+    },
+    npcs: state.npcs,
+    quests: state.quests,
+    world: state.world,
+    memory: state.memory,
+    corrections: state.corrections,
+    systemPrompt: getTheme(state.currentTheme).systemPrompt,
+    theme: state.currentTheme,
+  };
+}
+
+/**
+ * Applies a validated Dungeon Master response to the session state.
+ * Adds items, reconciles removals and wear against the inventory
+ * (rejected references become corrections for the next turn), applies
+ * stat changes within each stat's range (health_change goes to the theme's
+ * primary stat; everything that changes a stat in one turn, together, stays
+ * within the theme's per-turn damage and heal bounds), advances status effects (cured ones first, new ones
+ * start ticking next turn), applies a combat round's damage and advances
+ * the fight (or starts one), ends the run when a stat hits its death
+ * condition or the Dungeon Master signals an ending, updates the map, the characters met and the quest log
+ * (invalid objective updates become corrections), pins facts the
+ * Dungeon Master asked to remember and records the turn in history.
+ *
+ * @param state - The state before the turn
+ * @param response - The rule-checked response
+ * @param command - The command recorded in history
+ * @param resolution - Skill check, combat round or conversation the engine resolved this turn
+ * @returns The new state and system notices
+ */
+export function applyTurn(
+  state: SessionState,
+  response: StructuredResponse,
+  command: string,
+  { check, round, talkedTo }: TurnResolution = {}
+): TurnResult {
+  const update = response.game_state_update;
+  const added = addItems(state.inventory, update.inventory_add);
+  const removals = reconcileRemovals(added.inventory, update.inventory_remove);
+  const removed = removeItems(added.inventory, removals.accepted);
+  const wear = reconcileItemUpdates(removed.inventory, update.inventory_update);
+  const worn = updateItems(removed.inventory, wear.accepted);
+
+  const pack = getTheme(state.currentTheme);
+  const primary = primaryStat(pack).id;
+  const cured = removeEffects(state.effects, update.effects_remove);
+  const ticked = tickEffects(pack, cured.effects);
+  const afflicted = addEffects(ticked.effects, update.effects_add);
+  const fight = updateEncounter(state.encounter, response.encounter_start, round);
+
+  const changes = { ...update.stat_changes };
+  if (update.health_change !== undefined) {
+    changes[primary] = (changes[primary] ?? 0) + update.health_change;
+  }
+  for (const [id, change] of Object.entries(ticked.changes)) {
+    changes[id] = (changes[id] ?? 0) + change;
+  }
+  if (round) {
+    changes[primary] = (changes[primary] ?? 0) - round.taken;
+  }
+  for (const [id, change] of Object.entries(changes)) {
+    changes[id] = clampChange(change ?? 0, pack.rules);
+  }
+  const previous = normalizeStats(pack, state.stats, state.health);
+  const stats = applyStatChanges(pack, previous, changes);
+
+  // The server works out movement itself rather than trusting the client
+  const via = command === START_GAME_COMMAND ? undefined : parseCommand(command).direction;
+  const world = updateWorld(state.world, response.world_update, via);
+
+  const turn = state.history.length / 2;
+  const met = updateNpcs(
+    talkedTo ? touchNpc(state.npcs, talkedTo, turn) : state.npcs,
+    response.npc_updates,
+    world.currentLocationId,
+    turn
+  );
+  const journal = updateQuests(state.quests, response.quest_updates, turn);
+
+  const tally = {
+    itemsFound: state.tally.itemsFound + (update.inventory_add ?? []).reduce((sum, add) => sum + (add.quantity ?? 1), 0),
+    damageTaken: state.tally.damageTaken + Math.max(0, previous[primary] - stats[primary]),
+  };
+  const ending = state.ending ?? endRun(pack, fatalStat(pack, stats), response.ending, turn, tally);
+
+  return {
+    state: {
+      ...state,
+      health: stats[primary],
+      stats,
+      effects: afflicted.effects,
+      encounter: fight.encounter,
+      inventory: worn.inventory,
+      isGameOver: ending !== null,
+      tally,
+      ending,
+      world,
+      npcs: met.npcs,
+      quests: journal.quests,
+      history: [
+        ...state.history,
+        { role: 'user', content: command },
+        {
+          role: 'assistant',
+          content: [
+            check?.setup,
+            check && formatRoll(check.result),
+            ...(round ? formatRound(round) : []),
+            response.narrative,
+          ].filter(Boolean).join('\n'),
+        },
+      ],
+      memory: { ...state.memory, facts: pinFacts(state.memory.facts, response.remember) },
+      corrections: [...removals.corrections, ...wear.corrections, ...cured.corrections, ...journal.corrections],
+    },
+    notices: [
+      ...added.notices,
+      ...removed.notices,
+      ...worn.notices,
+      ...cured.notices,
+      ...ticked.notices,
+      ...afflicted.notices,
+      ...fight.notices,
+      ...met.notices,
+      ...journal.notices,
+      ...(ending && !state.ending ? [formatEnding(ending)] : []),
+    ],
+  };
+}
@@ -0,0 +1,45 @@
+import type { RunEnding } from './save-schema';
+import type { ThemeKey } from './themes';
+
+/**
+ * Something that happened in the game, announced by the store after the
+ * state reflects it.
+ */
+export type GameEvent =
+  /** A turn resolved; turns survived this run */
+  | { type: 'turn'; turns: number }
+  /** The turn just played hurt the player */
+  | { type: 'damage'; amount: number }
+  /** Items were gained or lost */
+  | { type: 'inventory' }
+  /** A run started in, or shifted into, a theme */
+  | { type: 'theme'; theme: ThemeKey }
+  | { type: 'ending'; ending: RunEnding };
+
+export type GameEventListener = (event: GameEvent) => void;
+
+const listeners = new Set<GameEventListener>();
+
+/**
+ * Listens to game events.
+ *
+ * @param listener - Called with every event
+ * @returns A function that stops listening
+ */
+export function onGameEvent(listener: GameEventListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Announces a game event to every listener.
+ *
+ * @param event - What happened
+ */
+export function emitGameEvent(event: GameEvent): void {
+  for (const listener of listeners) {
+    listener(event);
+  }
+}
@@ -0,0 +1,173 @@
+import type { ItemAdd, ItemRemove, ItemUpdate } from './schema';
+import type { InventoryItem } from './save-schema';
+import { hashSeed } from './random';
+
+/**
+ * Result of applying inventory changes: the new inventory plus the
+ * system notices describing what happened.
+ */
+export interface InventoryChange {
+  inventory: InventoryItem[];
+  notices: string[];
+}
+
+/**
+ * Derives a stable id from an item name ("Rusty Key" -> "rusty-key",
+ * "Ржавый ключ" -> "ржавый-ключ"). Names with no letters or digits at all
+ * (emoji) get an id hashed from the name. Items with the same name share
+ * an id and stack.
+ *
+ * @param name - The item's display name
+ * @returns The item id
+ */
+export function toItemId(name: string): string {
+  const slug = name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '');
+  return slug || `item-${hashSeed(name).toString(36)}`;
+}
+
+/**
+ * Finds a carried item by name or id, ignoring case.
+ *
+ * @param inventory - Items the player is carrying
+ * @param name - Name or id to look for
+ * @returns The item, or undefined if not carried
+ */
+export function findItem(inventory: InventoryItem[], name: string): InventoryItem | undefined {
+  const id = toItemId(name);
+  return inventory.find((item) => item.id === id);
+}
+
+/**
+ * Formats an item for compact display, e.g. "3x Matches" or "Torch [2]".
+ *
+ * @param item - The item to format
+ * @returns Display string with quantity and remaining charges
+ */
+export function formatItem(item: InventoryItem): string {
+  const quantity = item.quantity > 1 ? `${item.quantity}x ` : '';
+  const charges = item.charges !== undefined ? ` [${item.charges}]` : '';
+  return `${quantity}${item.name}${charges}`;
+}
+
+/**
+ * Describes an item in full for the examine command.
+ *
+ * @param item - The item to describe
+ * @returns Multi-line description with tags, charges and durability
+ */
+export function describeItem(item: InventoryItem): string {
+  const lines = [`► ${formatItem(item).toUpperCase()}`];
+  lines.push(item.description || 'You turn it over in your hands. It tells you nothing.');
+  if (item.tags.length > 0) lines.push(`TYPE: ${item.tags.join(', ').toUpperCase()}`);
+  if (item.charges !== undefined) lines.push(`CHARGES: ${item.charges}`);
+  if (item.durability !== undefined) lines.push(`DURABILITY: ${item.durability}`);
+  return lines.join('\n');
+}
+
+/**
+ * Adds items, stacking onto carried items with the same name.
+ *
+ * @param inventory - Items the player is carrying
+ * @param adds - Items to add
+ * @returns The new inventory and ACQUIRED notices
+ */
+export function addItems(inventory: InventoryItem[], adds: ItemAdd[] = []): InventoryChange {
+  const next = inventory.map((item) => ({ ...item }));
+  const notices: string[] = [];
+
+  for (const add of adds) {
+    const name = add.name.trim();
+    if (!name) continue;
+    const quantity = add.quantity ?? 1;
+    const existing = findItem(next, name);
+
+    if (existing) {
+      existing.quantity += quantity;
+      if (add.charges !== undefined) {
+        existing.charges = (existing.charges ?? 0) + add.charges;
+      }
+    } else {
+      next.push({
+        id: toItemId(name),
+        name,
+        quantity,
+        description: add.description ?? '',
+        tags: add.tags ?? [],
+        charges: add.charges,
+        durability: add.durability,
+      });
+    }
+    notices.push(`► ACQUIRED: ${quantity > 1 ? `${quantity}x ` : ''}${name.toUpperCase()}`);
+  }
+
+  return { inventory: next, notices };
+}
+
+/**
+ * Removes items the player is carrying. Removing part of a stack leaves the rest.
+ * Items that aren't carried are ignored.
+ *
+ * @param inventory - Items the player is carrying
+ * @param removes - Items to remove
+ * @returns The new inventory and USED notices for removals that happened
+ */
+export function removeItems(inventory: InventoryItem[], removes: ItemRemove[] = []): InventoryChange {
+  let next = inventory.map((item) => ({ ...item }));
+  const notices: string[] = [];
+
+  for (const remove of removes) {
+    const item = findItem(next, remove.name);
+    if (!item) continue;
+
+    const quantity = Math.min(remove.quantity ?? 1, item.quantity);
+    item.quantity -= quantity;
+    if (item.quantity <= 0) {
+      next = next.filter((other) => other.id !== item.id);
+      notices.push(`► USED: ${item.name.toUpperCase()}`);
+    } else {
+      notices.push(`► USED: ${quantity}x ${item.name.toUpperCase()} (${item.quantity} LEFT)`);
+    }
+  }
+
+  return { inventory: next, notices };
+}
+
+/**
+ * Applies wear to carried items. Items whose charges run out are kept but
+ * spent (consumables are used up); items whose durability runs out break.
+ *
+ * @param inventory - Items the player is carrying
+ * @param updates - Changes to charges and durability
+ * @returns The new inventory and DEPLETED/BROKEN notices
+ */
+export function updateItems(inventory: InventoryItem[], updates: ItemUpdate[] = []): InventoryChange {
+  let next = inventory.map((item) => ({ ...item }));
+  const notices: string[] = [];
+
+  for (const update of updates) {
+    const item = findItem(next, update.name);
+    if (!item) continue;
+
+    if (update.charges_change !== undefined && item.charges !== undefined) {
+      const wasCharged = item.charges > 0;
+      item.charges = Math.max(0, item.charges + update.charges_change);
+      if (wasCharged && item.charges === 0) {
+        notices.push(`► DEPLETED: ${item.name.toUpperCase()}`);
+        if (item.tags.includes('consumable')) {
+          next = next.filter((other) => other.id !== item.id);
+          continue;
+        }
+      }
+    }
+
+    if (update.durability_change !== undefined && item.durability !== undefined) {
+      item.durability = Math.max(0, item.durability + update.durability_change);
+      if (item.durability === 0) {
+        next = next.filter((other) => other.id !== item.id);
+        notices.push(`► BROKEN: ${item.name.toUpperCase()}`);
+      }
+    }
+  }
+
+  return { inventory: next, notices };
+}
@@ -0,0 +1,137 @@
+import type { ConversationTurn } from '@/types/game';
+import type { MemoryState } from './save-schema';
+import { estimateTokens, keepTail } from './tokens';
+
+/**
+ * Messages (user + assistant) kept verbatim in the context: the last 5 turns.
+ */
+export const RECENT_HISTORY_MESSAGES = 10;
+
+/**
+ * Older messages are only folded into the summary once this many have
+ * piled up beyond the recent window, so the summarizer runs every few turns
+ * rather than every turn.
+ */
+const SUMMARY_BATCH_MESSAGES = 6;
+
+/**
+ * Token budget for the story-so-far summary.
+ */
+export const SUMMARY_TOKEN_BUDGET = 300;
+
+/**
+ * Token budget for pinned facts. Older facts are left out first.
+ */
+export const FACTS_TOKEN_BUDGET = 150;
+
+/**
+ * Most facts kept pinned; the oldest are forgotten beyond this.
+ */
+const MAX_PINNED_FACTS = 20;
+
+/**
+ * Memory before anything has happened.
+ */
+export const INITIAL_MEMORY: MemoryState = {
+  summary: '',
+  summarizedThrough: 0,
+  facts: [],
+};
+
+/**
+ * Compresses older turns into a running summary.
+ * Receives the summary so far and the turns to fold into it.
+ */
+export type Summarizer = (summary: string, turns: ConversationTurn[]) => Promise<string>;
+
+/**
+ * First sentence of a narrative passage.
+ */
+function firstSentence(text: string): string {
+  const match = text.match(/^.*?[.!?](\s|$)/);
+  return (match ? match[0] : text).trim();
+}
+
+/**
+ * Deterministic summarizer: records each command with the first sentence of
+ * what followed. Used when no model summarizer is available or it fails.
+ */
+export const extractiveSummarizer: Summarizer = async (summary, turns) => {
+  const events: string[] = [];
+  for (let i = 0; i < turns.length; i++) {
+    const turn = turns[i];
+    if (turn.role !== 'assistant') continue;
+    const command = turns[i - 1]?.role === 'user' ? turns[i - 1].content : undefined;
+    const outcome = firstSentence(turn.content);
+    events.push(command && !command.startsWith('__') ? `(${command}) ${outcome}` : outcome);
+  }
+  return keepTail([summary, ...events].filter(Boolean).join(' '), SUMMARY_TOKEN_BUDGET);
+};
+
+/**
+ * Folds turns that have left the recent window into the summary, once
+ * enough of them have piled up. Falls back to the extractive summarizer
+ * if the configured one fails.
+ *
+ * @param memory - Memory before this turn
+ * @param history - The full conversation history
+ * @param summarizer - Summarizer to use
+ * @returns Updated memory (the same object if nothing needed summarizing)
+ */
+export async function compressMemory(
+  memory: MemoryState,
+  history: ConversationTurn[],
+  summarizer: Summarizer = extractiveSummarizer
+): Promise<MemoryState> {
+  const end = history.length - RECENT_HISTORY_MESSAGES;
+  if (end - memory.summarizedThrough < SUMMARY_BATCH_MESSAGES) {
+    return memory;
+  }
+
+  const turns = history.slice(memory.summarizedThrough, end);
+  let summary: string;
+  try {
+    summary = await summarizer(memory.summary, turns);
+  } catch (error) {
+    console.error('Summarizer failed, using extractive fallback:', error);
+    summary = await extractiveSummarizer(memory.summary, turns);
+  }
+
+  return { ...memory, summary: keepTail(summary.trim(), SUMMARY_TOKEN_BUDGET), summarizedThrough: end };
+}
+
+/**
+ * Pins new facts, skipping ones already pinned and forgetting the oldest
+ * beyond the limit.
+ *
+ * @param facts - Facts pinned so far
+ * @param remember - New facts from the Dungeon Master
+ * @returns The updated fact list
+ */
+export function pinFacts(facts: string[], remember: string[] = []): string[] {
+  const next = [...facts];
+  for (const fact of remember.map((fact) => fact.trim()).filter(Boolean)) {
+    if (!next.some((pinned) => pinned.toLowerCase() === fact.toLowerCase())) {
+      next.push(fact);
+    }
+  }
+  return next.slice(-MAX_PINNED_FACTS);
+}
+
+/**
+ * Picks the newest pinned facts that fit a token budget, in pinned order.
+ *
+ * @param facts - All pinned facts
+ * @param budget - Token budget for the facts
+ * @returns The facts to include in the context
+ */
+export function factsWithinBudget(facts: string[], budget = FACTS_TOKEN_BUDGET): string[] {
+  const kept: string[] = [];
+  let tokens = 0;
+  for (const fact of [...facts].reverse()) {
+    tokens += estimateTokens(fact);
+    if (tokens > budget) break;
+    kept.unshift(fact);
+  }
+  return kept;
+}
@@ -0,0 +1,50 @@
+import type { NarrativeStreamEvent, SessionCommand } from './narrative';
+
+/**
+ * Endpoint of the streaming narrative route handler.
+ */
+const NARRATIVE_STREAM_URL = '/api/narrative';
+
+/**
+ * Requests a Dungeon Master turn and yields events as they arrive.
+ * Parses the newline-delimited JSON emitted by the stream route.
+ *
+ * @param input - The session id and the player's command
+ * @returns Async iterator of narrative, complete and error events
+ */
+export async function* streamNarrative(
+  input: SessionCommand
+): AsyncGenerator<NarrativeStreamEvent> {
+  const response = await fetch(NARRATIVE_STREAM_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+
+  if (!response.ok || !response.body) {
+    throw new Error(`Narrative stream failed with status ${response.status}`);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += value;
+    let newlineIndex = buffer.indexOf('\n');
+    while (newlineIndex !== -1) {
+      const line = buffer.slice(0, newlineIndex).trim();
+      buffer = buffer.slice(newlineIndex + 1);
+      if (line) {
+        yield JSON.parse(line) as NarrativeStreamEvent;
+      }
+      newlineIndex = buffer.indexOf('\n');
+    }
+  }
+
+  if (buffer.trim()) {
+    yield JSON.parse(buffer) as NarrativeStreamEvent;
+  }
+}
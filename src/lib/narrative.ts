@@ -0,0 +1,198 @@
+import { z } from 'zod';
+import type { RealityShift, StructuredResponse } from './schema';
+import type { ConversationTurn } from '@/types/game';
+import { assembleContext, type AssembledContext } from './context';
+import { getTheme, type ThemeKey } from './themes';
+import type { NarrativeRequest } from './providers';
+import type { WorldState, InventoryItem, MemoryState, SessionState, ActiveEffect, Encounter, Npc, Quest } from './save-schema';
+import type { ResolvedCheck } from './skill-check';
+import { enforceRules, logRuleAdjustments } from './rules';
+
+/**
+ * Categories of failure surfaced to the client.
+ */
+export type NarrativeErrorType = 'network' | 'validation' | 'rate_limit' | 'auth' | 'session' | 'unknown';
+
+/**
+ * What the client sends for a turn: everything else comes from the server's session.
+ */
+export const SessionCommandSchema = z.object({
+  sessionId: z.string().min(1),
+  command: z.string(),
+});
+
+export type SessionCommand = z.infer<typeof SessionCommandSchema>;
+
+/**
+ * The authoritative state after a turn, for the client to mirror.
+ */
+export interface SessionUpdate {
+  sessionId: string;
+  state: SessionState;
+  /** Server signature of the state, kept with saves so they can be restored */
+  signature: string;
+  /** System notices describing what changed (ACQUIRED, USED...) */
+  notices: string[];
+}
+
+/**
+ * Input for a Dungeon Master turn, built on the server from session state.
+ */
+export interface GenerateNarrativeInput {
+  command: string;
+  history: ConversationTurn[];
+  playerState: {
+    health: number;
+    /** Every stat the theme declares, by id */
+    stats?: Record<string, number>;
+    /** Status effects currently active */
+    effects?: ActiveEffect[];
+    /** The fight in progress, if any */
+    encounter?: Encounter | null;
+    inventory: InventoryItem[];
+  };
+  /** Remembered locations and exits */
+  world?: WorldState;
+  /** Named characters met so far, by id */
+  npcs?: Record<string, Npc>;
+  /** Objectives opened so far */
+  quests?: Quest[];
+  /** Story-so-far summary and pinned facts */
+  memory?: MemoryState;
+  /** Continuity mistakes from the previous turn to point out */
+  corrections?: string[];
+  /** System prompt to use for the AI. Defaults to horror theme. */
+  systemPrompt?: string;
+  /** Active theme, used to pick a per-theme provider override. */
+  theme?: ThemeKey;
+}
+
+/**
+ * Output interface for the startGame server action.
+ */
+export interface GenerateNarrativeOutput {
+  success: boolean;
+  data?: StructuredResponse;
+  /** Skill check rolled this turn; `data` narrates its outcome */
+  check?: ResolvedCheck;
+  session?: SessionUpdate;
+  error?: string;
+  errorType?: NarrativeErrorType;
+}
+
+/**
+ * What the client sends to shift its session into another theme.
+ */
+export interface ShiftRealityInput {
+  sessionId: string;
+  theme: ThemeKey;
+}
+
+/**
+ * Output interface for the shiftReality server action.
+ */
+export interface ShiftRealityOutput {
+  success: boolean;
+  data?: RealityShift;
+  session?: SessionUpdate;
+  error?: string;
+  errorType?: NarrativeErrorType;
+}
+
+/**
+ * Output interface for the restoreSession server action.
+ */
+export interface RestoreSessionOutput {
+  success: boolean;
+  session?: SessionUpdate;
+  error?: string;
+}
+
+/**
+ * Events emitted line-by-line (NDJSON) by the narrative stream route.
+ * `narrative` carries the full text so far; `roll` ends the setup of a
+ * skill check, after which the outcome's narrative streams as a new entry;
+ * `complete` carries the validated response.
+ */
+export type NarrativeStreamEvent =
+  | { type: 'narrative'; narrative: string }
+  | { type: 'roll'; check: ResolvedCheck }
+  | { type: 'complete'; data: StructuredResponse; session: SessionUpdate }
+  | { type: 'error'; error: string; errorType: NarrativeErrorType };
+
+/**
+ * Builds the provider request along with the assembled context it came
+ * from, so the context inspector can show how each section was budgeted.
+ *
+ * @param input - The command, history, player state, and optional system prompt
+ * @returns The request and its assembled context
+ */
+export function prepareNarrativeRequest(
+  input: GenerateNarrativeInput
+): { request: NarrativeRequest; context: AssembledContext } {
+  // Use provided system prompt or default to the theme pack's
+  const system = input.systemPrompt || getTheme(input.theme).systemPrompt;
+
+  // Assemble context from the registered sections within the token budget
+  const context = assembleContext(input);
+
+  return {
+    request: {
+      system,
+      prompt: `${context.text}\n\nPlayer: ${input.command}`,
+    },
+    context,
+  };
+}
+
+/**
+ * Runs the rules engine over a validated response before it reaches the client,
+ * logging anything it had to change.
+ *
+ * @param data - The provider's validated response
+ * @param input - The turn's input (player state and theme select the bounds)
+ * @returns The response with a lawful state update
+ */
+export function applyRules(data: StructuredResponse, input: GenerateNarrativeInput): StructuredResponse {
+  const { response, adjustments } = enforceRules(data, input.playerState, input.theme);
+  logRuleAdjustments(adjustments, { theme: input.theme, command: input.command });
+  return response;
+}
+
+/**
+ * Raised when a command refers to a session the server can't continue.
+ */
+export class SessionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+/**
+ * Sanitizes error messages for client display.
+ * Removes sensitive information while keeping useful context.
+ */
+export function sanitizeErrorMessage(error: unknown): { message: string; type: NarrativeErrorType } {
+  if (error instanceof SessionError) {
+    return { message: error.message, type: 'session' };
+  }
+  if (error instanceof Error) {
+    const msg = error.message.toLowerCase();
+
+    if (msg.includes('api key') || msg.includes('unauthorized') || msg.includes('401')) {
+      return { message: 'Authentication failed with the void.', type: 'auth' };
+    }
+    if (msg.includes('rate limit') || msg.includes('429') || msg.includes('quota')) {
+      return { message: 'The void is overwhelmed. Please wait a moment.', type: 'rate_limit' };
+    }
+    if (msg.includes('timeout') || msg.includes('network') || msg.includes('fetch')) {
+      return { message: 'Connection to the void was lost.', type: 'network' };
+    }
+    if (msg.includes('parse') || msg.includes('json') || msg.includes('schema') || msg.includes('zod')) {
+      return { message: 'The void spoke in tongues we cannot understand.', type: 'validation' };
+    }
+  }
+
+  return { message: 'An unknown disturbance ripples through the void.', type: 'unknown' };
+}
@@ -0,0 +1,193 @@
+import type { ConversationTurn } from '@/types/game';
+import type { NpcUpdate } from './schema';
+import type { Npc, WorldState } from './save-schema';
+import type { NarrativeRequest } from './providers';
+import { DIALOGUE_PROMPT } from './prompts';
+import { RECENT_HISTORY_MESSAGES } from './memory';
+import { toItemId } from './inventory';
+import { tokenize } from './parser';
+
+/**
+ * Most things a character remembers; the oldest are forgotten first.
+ */
+const MAX_NPC_MEMORY = 8;
+
+/**
+ * Characters seen within this many turns stay in the context wherever they are.
+ */
+const RECENT_NPC_TURNS = 3;
+
+/**
+ * Memories shown per character in the context; dialogue gets them all.
+ */
+const CONTEXT_NPC_MEMORY = 3;
+
+/**
+ * Result of applying character updates: the new registry plus the system
+ * notices describing what changed.
+ */
+export interface NpcChange {
+  npcs: Record<string, Npc>;
+  notices: string[];
+}
+
+/**
+ * Finds a character by name or id, ignoring case. Tries an exact match,
+ * then a character whose name contains every word given ("talk to voss"
+ * finds Marla Voss). Ambiguous names resolve to nothing rather than guessing.
+ *
+ * @param npcs - Known characters by id
+ * @param name - Name, partial name or id to look for
+ * @returns The character, or undefined
+ */
+export function findNpc(npcs: Record<string, Npc>, name: string): Npc | undefined {
+  const exact = npcs[toItemId(name)];
+  if (exact) return exact;
+
+  const words = tokenize(name);
+  const matches = Object.values(npcs).filter((npc) => {
+    const nameWords = tokenize(npc.name);
+    return words.length > 0 && words.every((word) => nameWords.includes(word));
+  });
+  return matches.length === 1 ? matches[0] : undefined;
+}
+
+/**
+ * Adds memories, dropping repeats and forgetting the oldest beyond the cap.
+ */
+function remember(memory: string[], facts: string[] = []): string[] {
+  const added = facts.map((fact) => fact.trim()).filter((fact) => fact && !memory.includes(fact));
+  return [...memory, ...added].slice(-MAX_NPC_MEMORY);
+}
+
+/**
+ * Applies the Dungeon Master's character updates. New names are
+ * introduced (MET), known characters are updated in place; disposition
+ * changes and deaths are announced.
+ *
+ * @param npcs - Known characters by id
+ * @param updates - The npc_updates from the response
+ * @param locationId - Where the player is, for characters placed nowhere else
+ * @param turn - The turn being played
+ * @returns The new registry (the input is not mutated) and notices
+ */
+export function updateNpcs(
+  npcs: Record<string, Npc>,
+  updates: NpcUpdate[] = [],
+  locationId: string | null,
+  turn: number
+): NpcChange {
+  const next = { ...npcs };
+  const notices: string[] = [];
+
+  for (const update of updates) {
+    const existing = findNpc(next, update.name);
+    if (!existing) {
+      const npc: Npc = {
+        id: toItemId(update.name),
+        name: update.name.trim(),
+        description: update.description ?? '',
+        locationId: update.location_id ?? locationId,
+        disposition: update.disposition ?? 'neutral',
+        alive: update.alive ?? true,
+        memory: remember([], update.remember),
+        lastSeenTurn: turn,
+      };
+      next[npc.id] = npc;
+      notices.push(`► MET: ${npc.name.toUpperCase()}`);
+      continue;
+    }
+
+    const name = existing.name.toUpperCase();
+    if (update.disposition && update.disposition !== existing.disposition && existing.alive) {
+      notices.push(`► ${name} IS NOW ${update.disposition.toUpperCase()}`);
+    }
+    if (update.alive === false && existing.alive) {
+      notices.push(`► DECEASED: ${name}`);
+    }
+    next[existing.id] = {
+      ...existing,
+      description: update.description ?? existing.description,
+      locationId: update.location_id ?? locationId ?? existing.locationId,
+      disposition: update.disposition ?? existing.disposition,
+      // The dead stay dead
+      alive: existing.alive && (update.alive ?? true),
+      memory: remember(existing.memory, update.remember),
+      lastSeenTurn: turn,
+    };
+  }
+
+  return { npcs: next, notices };
+}
+
+/**
+ * Marks a character as seen this turn, e.g. after the player talked to them.
+ *
+ * @param npcs - Known characters by id
+ * @param id - The character's id
+ * @param turn - The turn being played
+ * @returns The new registry (the input is not mutated)
+ */
+export function touchNpc(npcs: Record<string, Npc>, id: string, turn: number): Record<string, Npc> {
+  const npc = npcs[id];
+  return npc ? { ...npcs, [id]: { ...npc, lastSeenTurn: Math.max(npc.lastSeenTurn, turn) } } : npcs;
+}
+
+/**
+ * Picks the characters worth reminding the Dungeon Master of: those at the
+ * player's location, seen in the last few turns, or named in recent history.
+ *
+ * @param npcs - Known characters by id
+ * @param world - The remembered map, for the player's location
+ * @param history - The conversation so far
+ * @returns The relevant characters, most recently seen first
+ */
+export function relevantNpcs(npcs: Record<string, Npc>, world: WorldState, history: ConversationTurn[]): Npc[] {
+  const turn = history.length / 2;
+  const recent = history.slice(-RECENT_HISTORY_MESSAGES).map((message) => message.content.toLowerCase()).join('\n');
+  return Object.values(npcs)
+    .filter((npc) =>
+      (npc.locationId !== null && npc.locationId === world.currentLocationId) ||
+      turn - npc.lastSeenTurn <= RECENT_NPC_TURNS ||
+      recent.includes(npc.name.toLowerCase()))
+    .sort((a, b) => b.lastSeenTurn - a.lastSeenTurn);
+}
+
+/**
+ * Describes a character in one line, e.g.
+ * "Marla Voss [friendly, at Rain Alley]: A fence with a glass eye."
+ *
+ * @param npc - The character
+ * @param world - The remembered map, for location names
+ * @param memories - How many of their most recent memories to include
+ * @returns The description
+ */
+export function describeNpc(npc: Npc, world: WorldState, memories = CONTEXT_NPC_MEMORY): string {
+  const place = npc.locationId ? world.locations[npc.locationId]?.name ?? npc.locationId : 'unknown';
+  const status = npc.alive ? `${npc.disposition}, at ${place}` : 'dead';
+  const known = memories > 0 ? npc.memory.slice(-memories) : [];
+  return `${npc.name} [${status}]: ${npc.description || 'No description yet.'}${known.length > 0 ? ` Remembers: ${known.join('; ')}` : ''}`;
+}
+
+/**
+ * Builds the request for a conversation with a character. Repeats the
+ * turn's request so the context is the same, then adds who the player is
+ * talking to and everything they remember.
+ *
+ * @param request - The turn's original request
+ * @param npc - The character being spoken to
+ * @param world - The remembered map, for location names
+ * @returns The dialogue request
+ */
+export function buildDialogueRequest(request: NarrativeRequest, npc: Npc, world: WorldState): NarrativeRequest {
+  const memory = npc.memory.length > 0 ? npc.memory.map((fact) => `- ${fact}`).join('\n') : '- (nothing yet)';
+  return {
+    ...request,
+    system: `${request.system}\n\n${DIALOGUE_PROMPT}`,
+    prompt: `${request.prompt}
+
+TALKING TO: ${describeNpc(npc, world, 0)}
+EVERYTHING THEY REMEMBER:
+${memory}`,
+  };
+}
@@ -0,0 +1,219 @@
+import type { Direction } from './schema';
+
+/**
+ * A player command broken down into a canonical verb and its object.
+ */
+export interface ParsedCommand {
+  /** The command exactly as typed */
+  raw: string;
+  /** Lowercased words with punctuation stripped */
+  tokens: string[];
+  /** Canonical verb (e.g. 'l' and 'look' both become 'look') */
+  verb: string;
+  /** Words after the verb with articles removed, if any */
+  object?: string;
+  /** Inventory item the object refers to, with its original casing */
+  item?: string;
+  /** Direction for movement commands */
+  direction?: Direction;
+  /** Normalized command sent to the Dungeon Master */
+  canonical: string;
+}
+
+/**
+ * Maps single words to canonical verbs.
+ */
+const VERB_SYNONYMS = new Map<string, string>(Object.entries({
+  l: 'look',
+  look: 'look',
+  scan: 'look',
+  survey: 'look',
+  i: 'inventory',
+  inv: 'inventory',
+  inventory: 'inventory',
+  x: 'examine',
+  examine: 'examine',
+  inspect: 'examine',
+  read: 'examine',
+  take: 'take',
+  get: 'take',
+  grab: 'take',
+  use: 'use',
+  activate: 'use',
+  wield: 'use',
+  drop: 'drop',
+  discard: 'drop',
+  go: 'go',
+  walk: 'go',
+  run: 'go',
+  move: 'go',
+  head: 'go',
+  z: 'wait',
+  wait: 'wait',
+  h: 'help',
+  help: 'help',
+  instructions: 'help',
+  m: 'map',
+  map: 'map',
+  attack: 'attack',
+  hit: 'attack',
+  strike: 'attack',
+  fight: 'attack',
+  kill: 'attack',
+  defend: 'defend',
+  block: 'defend',
+  parry: 'defend',
+  guard: 'defend',
+  flee: 'flee',
+  escape: 'flee',
+  retreat: 'flee',
+  talk: 'talk',
+  speak: 'talk',
+  chat: 'talk',
+  j: 'journal',
+  journal: 'journal',
+  quests: 'journal',
+  objectives: 'journal',
+  stats: 'stats',
+  statistics: 'stats',
+  score: 'stats',
+  achievements: 'achievements',
+  trophies: 'achievements',
+}));
+
+/**
+ * Multi-word phrases that stand for a verb. Checked before single words.
+ */
+const VERB_PHRASES: [string[], string][] = [
+  [['check', 'inventory'], 'inventory'],
+  [['look', 'at'], 'examine'],
+  [['look', 'around'], 'look'],
+  [['pick', 'up'], 'take'],
+  [['run', 'away'], 'flee'],
+  [['talk', 'to'], 'talk'],
+  [['speak', 'to'], 'talk'],
+  [['speak', 'with'], 'talk'],
+  [['talk', 'with'], 'talk'],
+];
+
+/**
+ * Words that mean a direction, including single-letter shorthands.
+ */
+const DIRECTION_WORDS = new Map<string, Direction>([
+  ['north', 'north'],
+  ['n', 'north'],
+  ['south', 'south'],
+  ['s', 'south'],
+  ['east', 'east'],
+  ['e', 'east'],
+  ['west', 'west'],
+  ['w', 'west'],
+]);
+
+/**
+ * Filler words dropped from objects.
+ */
+const ARTICLES = new Set(['the', 'a', 'an', 'my', 'some']);
+
+/**
+ * Every canonical verb the parser recognizes.
+ */
+const KNOWN_VERBS: ReadonlySet<string> = new Set([
+  'go',
+  ...VERB_SYNONYMS.values(),
+  ...VERB_PHRASES.map(([, verb]) => verb),
+]);
+
+/**
+ * Checks whether a verb is one the parser recognizes, rather than the
+ * first word of a command it passed through as typed.
+ *
+ * @param verb - A parsed verb
+ * @returns True for canonical verbs
+ */
+export function isKnownVerb(verb: string): boolean {
+  return KNOWN_VERBS.has(verb);
+}
+
+/**
+ * Splits a command into lowercase words, dropping punctuation.
+ *
+ * @param command - The raw player command
+ * @returns The command's words
+ */
+export function tokenize(command: string): string[] {
+  return command
+    .toLowerCase()
+    .replace(/[.,!?;:"()[\]{}]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+/**
+ * Finds the inventory item an object phrase refers to.
+ * Tries an exact match, then an item containing every word of the phrase.
+ * Ambiguous phrases resolve to nothing rather than guessing.
+ *
+ * @param object - The object phrase, lowercased
+ * @param inventory - Items the player is carrying
+ * @returns The matching item name, or undefined
+ */
+export function resolveItem(object: string, inventory: string[]): string | undefined {
+  const exact = inventory.find((item) => item.toLowerCase() === object);
+  if (exact) return exact;
+
+  const words = object.split(' ');
+  const matches = inventory.filter((item) => {
+    const itemWords = tokenize(item);
+    return words.every((word) => itemWords.includes(word));
+  });
+  return matches.length === 1 ? matches[0] : undefined;
+}
+
+/**
+ * Parses a player command into its canonical form.
+ *
+ * @param command - The raw player command
+ * @param inventory - Items the player is carrying, for object resolution
+ * @returns The parsed command
+ */
+export function parseCommand(command: string, inventory: string[] = []): ParsedCommand {
+  const tokens = tokenize(command);
+
+  // Bare directions ("n", "west") are movement
+  const direction = tokens.length === 1 ? DIRECTION_WORDS.get(tokens[0]) : undefined;
+  if (direction) {
+    return { raw: command, tokens, verb: 'go', direction, canonical: `go ${direction}` };
+  }
+
+  let verb: string | undefined;
+  let rest = tokens;
+
+  const phrase = VERB_PHRASES.find(([words]) => words.every((word, i) => tokens[i] === word));
+  if (phrase) {
+    verb = phrase[1];
+    rest = tokens.slice(phrase[0].length);
+  } else if (tokens.length > 0 && VERB_SYNONYMS.has(tokens[0])) {
+    verb = VERB_SYNONYMS.get(tokens[0]);
+    rest = tokens.slice(1);
+  }
+
+  // Unknown verbs are passed through as typed, just tidied up
+  if (!verb) {
+    const canonical = tokens.join(' ');
+    return { raw: command, tokens, verb: tokens[0] ?? '', object: tokens.slice(1).join(' ') || undefined, canonical };
+  }
+
+  const objectWords = rest.filter((word) => !ARTICLES.has(word));
+  const object = objectWords.length > 0 ? objectWords.join(' ') : undefined;
+
+  if (verb === 'go') {
+    const destination = object ? DIRECTION_WORDS.get(object) : undefined;
+    const canonical = destination ? `go ${destination}` : ['go', object].filter(Boolean).join(' ');
+    return { raw: command, tokens, verb, object, direction: destination, canonical };
+  }
+
+  const item = object ? resolveItem(object, inventory) : undefined;
+  const canonical = [verb, item ?? object].filter(Boolean).join(' ');
+  return { raw: command, tokens, verb, object, item, canonical };
+}
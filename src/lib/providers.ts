@@ -0,0 +1,292 @@
+import { generateObject, generateText, streamObject, type LanguageModel } from 'ai';
+import { google } from '@ai-sdk/google';
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import {
+  RealityShiftSchema,
+  StructuredResponseSchema,
+  type RealityShift,
+  type StructuredResponse,
+  type PartialStructuredResponse,
+} from './schema';
+import { SUMMARY_PROMPT } from './prompts';
+import type { ThemeKey } from './themes';
+import type { Summarizer } from './memory';
+
+/**
+ * Keys of the narrative backends the engine knows how to build.
+ */
+export type ProviderKey = 'gemini' | 'openai-compatible' | 'scripted';
+
+/**
+ * A single request for the Dungeon Master: system prompt plus assembled context.
+ */
+export interface NarrativeRequest {
+  system: string;
+  prompt: string;
+  /** Sampling seed, derived from the run seed, for backends that support one */
+  seed?: number;
+  /** Requests the session sent before this one, for the scripted provider */
+  position?: number;
+}
+
+/**
+ * A response being generated incrementally.
+ * `object` resolves only once the full response has been validated.
+ */
+export interface NarrativeStream {
+  partialObjectStream: AsyncIterable<PartialStructuredResponse>;
+  object: Promise<StructuredResponse>;
+}
+
+/**
+ * A backend capable of producing a StructuredResponse for a request,
+ * either all at once or as a stream of partial objects.
+ * Backends that can write free text also summarize long-term memory, and
+ * translate a run into a new theme when reality shifts.
+ */
+export interface NarrativeProvider {
+  key: ProviderKey;
+  generate: (request: NarrativeRequest) => Promise<StructuredResponse>;
+  stream: (request: NarrativeRequest) => NarrativeStream;
+  summarize?: Summarizer;
+  shift?: (request: NarrativeRequest) => Promise<RealityShift>;
+}
+
+/**
+ * Wraps an AI SDK language model as a narrative provider.
+ * Uses structured output so every backend returns the same schema.
+ */
+function createModelProvider(key: ProviderKey, model: LanguageModel): NarrativeProvider {
+  return {
+    key,
+    generate: async ({ system, prompt, seed }) => {
+      const { object } = await generateObject({
+        model,
+        schema: StructuredResponseSchema,
+        system,
+        prompt,
+        seed,
+      });
+      return object;
+    },
+    stream: ({ system, prompt, seed }) => {
+      const { partialObjectStream, object } = streamObject({
+        model,
+        schema: StructuredResponseSchema,
+        system,
+        prompt,
+        seed,
+      });
+      return { partialObjectStream, object };
+    },
+    summarize: async (summary, turns) => {
+      const { text } = await generateText({
+        model,
+        system: SUMMARY_PROMPT,
+        prompt: `STORY SO FAR:\n${summary || '(nothing yet)'}\n\nNEW EVENTS:\n${turns
+          .map((turn) => `${turn.role.toUpperCase()}: ${turn.content}`)
+          .join('\n')}`,
+      });
+      return text;
+    },
+    shift: async ({ system, prompt, seed }) => {
+      const { object } = await generateObject({
+        model,
+        schema: RealityShiftSchema,
+        system,
+        prompt,
+        seed,
+      });
+      return object;
+    },
+  };
+}
+
+/**
+ * Google Gemini backend. Model id can be overridden with GEMINI_MODEL.
+ */
+function createGeminiProvider(): NarrativeProvider {
+  return createModelProvider('gemini', google(process.env.GEMINI_MODEL || 'gemini-2.5-flash'));
+}
+
+/**
+ * Any OpenAI-compatible endpoint (llama.cpp server, Ollama, vLLM...).
+ * Defaults to a local Ollama instance.
+ */
+function createOpenAICompatibleProvider(): NarrativeProvider {
+  const provider = createOpenAICompatible({
+    name: 'openai-compatible',
+    baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL || 'http://localhost:11434/v1',
+    apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+  });
+  return createModelProvider(
+    'openai-compatible',
+    provider.chatModel(process.env.OPENAI_COMPATIBLE_MODEL || 'llama3.1')
+  );
+}
+
+/**
+ * Canned responses replayed by the default scripted provider.
+ * Exercises health and stat changes, inventory, visual and sound cues, and movement.
+ */
+export const DEFAULT_SCRIPT: StructuredResponse[] = [
+  {
+    narrative: 'You wake on cold stone, the dark pressing against your eyes like wet cloth. Somewhere to the north, something breathes in time with you.',
+    visual_cue: 'void',
+    game_state_update: {},
+    sound_cue: 'wind',
+    world_update: {
+      location_id: 'cold_cell',
+      location_name: 'Cold Cell',
+      exits: [{ direction: 'north', to_id: 'breathing_hall', to_name: 'Breathing Hall' }],
+    },
+  },
+  {
+    narrative: 'Your fingers close around a rusted key half-buried in the grit. It is warm, as if someone was holding it a moment ago.',
+    visual_cue: 'none',
+    game_state_update: {
+      inventory_add: [
+        { name: 'Rusty Key', description: 'Its teeth are filed into the shape of a grin.', tags: ['key'] },
+        { name: 'Matches', quantity: 3, description: 'Damp, but they might still catch.', tags: ['light', 'consumable'] },
+      ],
+    },
+    sound_cue: 'drip',
+    world_update: { location_id: 'cold_cell', location_name: 'Cold Cell' },
+  },
+  {
+    narrative: 'A door of blackened oak looms out of the gloom, its lock the shape of a screaming mouth. The air behind it tastes of iron.',
+    visual_cue: 'door',
+    game_state_update: {},
+    sound_cue: 'none',
+    world_update: {
+      location_id: 'breathing_hall',
+      location_name: 'Breathing Hall',
+      exits: [
+        { direction: 'south', to_id: 'cold_cell', to_name: 'Cold Cell' },
+        { direction: 'east', to_id: 'bone_corridor', to_name: 'Bone Corridor' },
+      ],
+    },
+  },
+  {
+    narrative: 'The key turns and snaps in the lock, and the door sighs open onto a corridor of bones. Something in the walls laughs at your trembling hands.',
+    visual_cue: 'skeleton',
+    game_state_update: {
+      health_change: -10,
+      stat_changes: { sanity: -15 },
+      inventory_remove: [{ name: 'Rusty Key' }, { name: 'Matches' }],
+    },
+    sound_cue: 'scream',
+    world_update: { location_id: 'bone_corridor', location_name: 'Bone Corridor' },
+  },
+  {
+    narrative: 'A shape unfolds from the ceiling and rakes you with too many claws. You stagger back, bleeding into the hungry dark.',
+    visual_cue: 'monster',
+    game_state_update: { health_change: -20 },
+    sound_cue: 'combat',
+    world_update: {
+      location_id: 'bone_corridor',
+      location_name: 'Bone Corridor',
+      exits: [{ direction: 'north', to_id: 'ceiling_nest', to_name: 'Ceiling Nest' }],
+    },
+  },
+];
+
+/**
+ * Creates a deterministic provider that replays canned responses in order,
+ * looping back to the start when the script runs out. A request's position
+ * picks its response, so every session follows the script from its own
+ * start; requests without one take the next response in turn.
+ * Lets the UI and store be exercised offline without an API key.
+ * When streaming, the narrative is revealed one word per chunk.
+ *
+ * @param script - Responses to replay; each is validated against the schema
+ * @param chunkDelayMs - Delay between streamed chunks, to mimic a real model
+ * @returns A provider with an extra reset() to rewind the script
+ */
+export function createScriptedProvider(
+  script: StructuredResponse[] = DEFAULT_SCRIPT,
+  chunkDelayMs = 40
+): NarrativeProvider & { reset: () => void } {
+  if (script.length === 0) {
+    throw new Error('Scripted provider requires at least one response');
+  }
+  const responses = script.map((response) => StructuredResponseSchema.parse(response));
+  let cursor = 0;
+
+  const next = (position = cursor++): StructuredResponse =>
+    structuredClone(responses[position % responses.length]);
+
+  return {
+    key: 'scripted',
+    generate: async ({ position }) => next(position),
+    stream: ({ position }) => {
+      const response = next(position);
+      async function* partials(): AsyncGenerator<PartialStructuredResponse> {
+        const words = response.narrative.split(' ');
+        for (let i = 1; i <= words.length; i++) {
+          if (chunkDelayMs > 0) {
+            await new Promise((resolve) => setTimeout(resolve, chunkDelayMs));
+          }
+          yield { narrative: words.slice(0, i).join(' ') };
+        }
+      }
+      return { partialObjectStream: partials(), object: Promise.resolve(response) };
+    },
+    reset: () => {
+      cursor = 0;
+    },
+  };
+}
+
+/**
+ * Registry of provider factories by key.
+ */
+const PROVIDER_FACTORIES: Record<ProviderKey, () => NarrativeProvider> = {
+  gemini: createGeminiProvider,
+  'openai-compatible': createOpenAICompatibleProvider,
+  scripted: () => createScriptedProvider(),
+};
+
+/**
+ * Lazily built provider instances, one per key.
+ */
+const providerCache: Map<ProviderKey, NarrativeProvider> = new Map();
+
+function isProviderKey(value: string): value is ProviderKey {
+  return Object.hasOwn(PROVIDER_FACTORIES, value);
+}
+
+/**
+ * Resolves which backend to use for a theme.
+ * NARRATIVE_PROVIDER_<THEME> (e.g. NARRATIVE_PROVIDER_SCIFI, dashes become
+ * underscores) wins over
+ * NARRATIVE_PROVIDER; unknown values fall back to Gemini.
+ *
+ * @param theme - Optional theme to look up a per-theme override for
+ * @returns The provider key to use
+ */
+export function resolveProviderKey(theme?: ThemeKey): ProviderKey {
+  const themeOverride = theme ? process.env[`NARRATIVE_PROVIDER_${theme.toUpperCase().replace(/-/g, '_')}`] : undefined;
+  const configured = themeOverride || process.env.NARRATIVE_PROVIDER;
+
+  if (!configured) return 'gemini';
+  if (isProviderKey(configured)) return configured;
+
+  console.warn(`Unknown narrative provider "${configured}", falling back to gemini`);
+  return 'gemini';
+}
+
+/**
+ * Gets the provider instance for a key, building it on first use.
+ *
+ * @param key - The provider key
+ * @returns The shared provider instance
+ */
+export function getProvider(key: ProviderKey): NarrativeProvider {
+  let provider = providerCache.get(key);
+  if (!provider) {
+    provider = PROVIDER_FACTORIES[key]();
+    providerCache.set(key, provider);
+  }
+  return provider;
+}
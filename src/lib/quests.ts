@@ -0,0 +1,160 @@
+import type { QuestUpdate } from './schema';
+import type { Quest } from './save-schema';
+import { toItemId } from './inventory';
+
+/**
+ * Progress notes kept per objective; the oldest are dropped first.
+ */
+const MAX_QUEST_NOTES = 5;
+
+/**
+ * Result of applying objective updates: the new quest log plus the system
+ * notices and corrections describing what happened.
+ */
+export interface QuestChange {
+  quests: Quest[];
+  notices: string[];
+  /** Mistakes to point out to the Dungeon Master next turn */
+  corrections: string[];
+}
+
+/**
+ * Lists the open objectives for a correction, e.g. "find_key, escape".
+ */
+function openIds(quests: Quest[]): string {
+  const open = quests.filter((quest) => quest.status === 'active').map((quest) => quest.id);
+  return open.length > 0 ? open.join(', ') : 'none';
+}
+
+/**
+ * Announces a change of status, e.g. "► COMPLETED: FIND THE KEY".
+ */
+function statusNotice(quest: Quest): string {
+  switch (quest.status) {
+    case 'completed':
+      return `► COMPLETED: ${quest.title.toUpperCase()}`;
+    case 'failed':
+      return `► FAILED: ${quest.title.toUpperCase()}`;
+    default:
+      return `► NEW OBJECTIVE: ${quest.title.toUpperCase()}`;
+  }
+}
+
+/**
+ * Applies the Dungeon Master's objective updates. Unknown ids open a new
+ * objective (which needs a title); known ones record progress or close.
+ * Closed objectives stay closed, and updates that can't apply are
+ * rejected with a correction.
+ *
+ * @param quests - The quest log
+ * @param updates - The quest_updates from the response
+ * @param turn - The turn being played
+ * @param now - Time of the turn, for timestamps
+ * @returns The new quest log (the input is not mutated), notices and corrections
+ */
+export function updateQuests(
+  quests: Quest[],
+  updates: QuestUpdate[] = [],
+  turn: number,
+  now = Date.now()
+): QuestChange {
+  const next = [...quests];
+  const notices: string[] = [];
+  const corrections: string[] = [];
+
+  for (const update of updates) {
+    const id = toItemId(update.id);
+    const index = next.findIndex((quest) => quest.id === id);
+    const progress = update.progress?.trim();
+
+    if (index === -1) {
+      if (!update.title?.trim()) {
+        corrections.push(`You updated objective "${update.id}", but it was never opened. Open objectives: ${openIds(next)}.`);
+        continue;
+      }
+      const status = update.status ?? 'active';
+      const quest: Quest = {
+        id,
+        title: update.title.trim(),
+        description: update.description ?? '',
+        status,
+        notes: progress ? [progress] : [],
+        openedTurn: turn,
+        openedAt: now,
+        updatedAt: now,
+        closedTurn: status === 'active' ? null : turn,
+      };
+      next.push(quest);
+      notices.push(`► NEW OBJECTIVE: ${quest.title.toUpperCase()}`);
+      if (status !== 'active') notices.push(statusNotice(quest));
+      continue;
+    }
+
+    const existing = next[index];
+    if (existing.status !== 'active') {
+      corrections.push(`Objective "${existing.id}" is already ${existing.status} and cannot change. Open objectives: ${openIds(next)}.`);
+      continue;
+    }
+
+    const status = update.status ?? existing.status;
+    const quest: Quest = {
+      ...existing,
+      title: update.title?.trim() || existing.title,
+      description: update.description ?? existing.description,
+      status,
+      notes: progress ? [...existing.notes, progress].slice(-MAX_QUEST_NOTES) : existing.notes,
+      updatedAt: now,
+      closedTurn: status === 'active' ? null : turn,
+    };
+    next[index] = quest;
+    if (status !== 'active') {
+      notices.push(statusNotice(quest));
+    } else if (progress) {
+      notices.push(`► OBJECTIVE UPDATED: ${quest.title.toUpperCase()}`);
+    }
+  }
+
+  return { quests: next, notices, corrections };
+}
+
+/**
+ * Describes an objective in one line, e.g.
+ * "Find the Key [find_the_key]: Open the lighthouse. Latest: The keeper has it."
+ *
+ * @param quest - The objective
+ * @returns The description
+ */
+export function describeQuest(quest: Quest): string {
+  const latest = quest.notes.at(-1);
+  return `${quest.title} [${quest.id}]: ${quest.description || 'No details yet.'}${latest ? ` Latest: ${latest}` : ''}`;
+}
+
+/**
+ * Formats the quest log for the journal command: open objectives first,
+ * then the ones that are over, most recently closed first.
+ *
+ * @param quests - The quest log
+ * @returns The system entry text
+ */
+export function formatJournal(quests: Quest[]): string {
+  if (quests.length === 0) {
+    return '► JOURNAL: EMPTY. You have no purpose yet, only survival.';
+  }
+
+  const active = quests.filter((quest) => quest.status === 'active');
+  const closed = quests
+    .filter((quest) => quest.status !== 'active')
+    .sort((a, b) => (b.closedTurn ?? 0) - (a.closedTurn ?? 0));
+  const marks = { active: '[ ]', completed: '[X]', failed: '[-]' };
+  const lines = ['► JOURNAL'];
+
+  for (const quest of [...active, ...closed]) {
+    lines.push(`  ${marks[quest.status]} ${quest.title.toUpperCase()}${quest.status === 'active' ? '' : ` (${quest.status.toUpperCase()})`}`);
+    if (quest.status === 'active') {
+      if (quest.description) lines.push(`      ${quest.description}`);
+      const latest = quest.notes.at(-1);
+      if (latest) lines.push(`      Latest: ${latest}`);
+    }
+  }
+  return lines.join('\n');
+}
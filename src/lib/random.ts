@@ -0,0 +1,59 @@
+/**
+ * A source of random numbers in [0, 1), like Math.random.
+ */
+export type Rng = () => number;
+
+/**
+ * Creates a new run seed: eight characters that are easy to read out in
+ * a bug report, e.g. "K3F9Q2MA".
+ *
+ * @returns A random seed
+ */
+export function createSeed(): string {
+  return Math.floor(Math.random() * 36 ** 8).toString(36).toUpperCase().padStart(8, '0');
+}
+
+/**
+ * Hashes a string seed into a 32-bit integer (FNV-1a).
+ *
+ * @param seed - Any string
+ * @returns The hash, for APIs that take a numeric seed
+ */
+export function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Creates a seeded random number generator (mulberry32).
+ * The same seed always produces the same sequence, so rolls can be
+ * reproduced and asserted on.
+ *
+ * @param seed - Any number or string
+ * @returns A generator of numbers in [0, 1)
+ */
+export function createRng(seed: number | string): Rng {
+  let state = typeof seed === 'number' ? seed >>> 0 : hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Rolls a die.
+ *
+ * @param rng - The random source
+ * @param sides - Number of faces (default 20)
+ * @returns A number from 1 to sides
+ */
+export function rollDie(rng: Rng, sides = 20): number {
+  return Math.floor(rng() * sides) + 1;
+}
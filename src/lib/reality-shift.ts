@@ -0,0 +1,164 @@
+import type { ItemTranslation, RealityShift } from './schema';
+import type { InventoryItem, SessionState, WorldState } from './save-schema';
+import type { NarrativeRequest } from './providers';
+import type { TurnResult } from './engine';
+import { REALITY_SHIFT_PROMPT } from './prompts';
+import { getTheme, type ThemeKey } from './themes';
+import { getCurrentLocation } from './world';
+import { matchItem } from './reconcile';
+import { formatItem, toItemId } from './inventory';
+import { formatStat, normalizeStats, primaryStat, rescaleStat } from './stats';
+
+/**
+ * Inventory after a shift, with the translations that were actually applied.
+ */
+interface TranslatedInventory {
+  inventory: InventoryItem[];
+  applied: ItemTranslation[];
+}
+
+/**
+ * Builds the provider request that translates a run into a new theme.
+ * Uses the new theme's system prompt plus the transition instructions.
+ *
+ * @param state - The session state before the shift
+ * @param theme - The theme reality is shifting into
+ * @returns The request to hand to the new theme's provider
+ */
+export function buildShiftRequest(state: SessionState, theme: ThemeKey): NarrativeRequest {
+  const from = getTheme(state.currentTheme);
+  const to = getTheme(theme);
+  const location = getCurrentLocation(state.world);
+  const primary = primaryStat(from);
+  const scene = [...state.history].reverse().find((turn) => turn.role === 'assistant');
+  const items = state.inventory.length > 0
+    ? state.inventory.map((item) => `- ${formatItem(item)}: ${item.description}`).join('\n')
+    : '- (nothing)';
+
+  return {
+    system: `${to.systemPrompt}\n\n${REALITY_SHIFT_PROMPT}`,
+    prompt: `SHIFTING FROM: ${from.displayName}
+SHIFTING TO: ${to.displayName}
+
+CURRENT LOCATION: ${location?.name ?? 'Unknown'}
+CURRENT SCENE: ${scene?.content ?? 'The player has only just arrived.'}
+
+PLAYER ${primary.label}: ${formatStat(primary, state.health)}
+CARRIED ITEMS:
+${items}`,
+  };
+}
+
+/**
+ * The shift used when the provider can't translate: the new reality
+ * takes over, but everything keeps its old name.
+ *
+ * @param state - The session state before the shift
+ * @returns A shift that translates nothing
+ */
+export function literalShift(state: SessionState): RealityShift {
+  return {
+    narrative: 'The world folds along a seam you never noticed and opens somewhere else. Everything you carry is still in your hands.',
+    visual_cue: 'none',
+    sound_cue: 'none',
+    location_name: getCurrentLocation(state.world)?.name ?? '',
+    item_translations: [],
+  };
+}
+
+/**
+ * Applies item translations to the inventory. Each carried item is
+ * translated at most once; translations of items the player doesn't
+ * carry, or that would collide with another carried item, are ignored.
+ * Quantity, tags, charges and durability carry over unchanged.
+ */
+function translateInventory(inventory: InventoryItem[], translations: ItemTranslation[]): TranslatedInventory {
+  let untranslated = inventory;
+  const result = new Map(inventory.map((item) => [item.id, item]));
+  const applied: ItemTranslation[] = [];
+
+  for (const translation of translations) {
+    const item = matchItem(untranslated, translation.from);
+    const name = translation.to.trim();
+    if (!item || !name) continue;
+
+    const id = toItemId(name);
+    const taken = [...result.entries()].some(([key, other]) => other.id === id && key !== item.id);
+    if (taken) continue;
+
+    untranslated = untranslated.filter((other) => other.id !== item.id);
+    result.set(item.id, { ...item, id, name, description: translation.description || item.description });
+    if (item.name !== name) {
+      applied.push({ from: item.name, to: name });
+    }
+  }
+
+  return { inventory: inventory.map((item) => result.get(item.id) ?? item), applied };
+}
+
+/**
+ * Renames the current location for the new reality, keeping the map intact.
+ */
+function renameCurrentLocation(world: WorldState, name: string): WorldState {
+  const location = getCurrentLocation(world);
+  if (!location || !name.trim()) return world;
+  return {
+    ...world,
+    locations: { ...world.locations, [location.id]: { ...location, name: name.trim() } },
+  };
+}
+
+/**
+ * Formats applied translations, e.g. "Rusty Key → Keycard".
+ *
+ * @param translations - Translations that were applied
+ * @returns One mapping per item, separated by semicolons
+ */
+export function formatTranslations(translations: ItemTranslation[]): string {
+  return translations.map(({ from, to }) => `${from} → ${to}`).join('; ');
+}
+
+/**
+ * Moves a run into a new theme without losing progress. Map and memory
+ * are kept, health keeps its share of the new primary stat's range and the
+ * other stats are fitted to the new theme; items and the
+ * current location are translated, and the shift (with its item mapping)
+ * is recorded in history.
+ *
+ * @param state - The session state before the shift
+ * @param shift - The provider's translation of the run
+ * @param theme - The theme reality is shifting into
+ * @returns The new state and system notices
+ */
+export function applyRealityShift(state: SessionState, shift: RealityShift, theme: ThemeKey): TurnResult {
+  const from = getTheme(state.currentTheme);
+  const to = getTheme(theme);
+  const { inventory, applied } = translateInventory(state.inventory, shift.item_translations);
+  const mapping = applied.length > 0 ? `\n[TRANSLATED: ${formatTranslations(applied)}]` : '';
+  // The primary stat keeps its share of its range (health becomes oxygen);
+  // stats both themes share keep their values, clamped to the new range,
+  // and the rest start at their initial values
+  const health = rescaleStat(primaryStat(from), primaryStat(to), state.health);
+  const stats = normalizeStats(to, state.stats, health);
+
+  return {
+    state: {
+      ...state,
+      health: stats[primaryStat(to).id],
+      stats,
+      inventory,
+      world: renameCurrentLocation(state.world, shift.location_name),
+      history: [
+        ...state.history,
+        { role: 'user', content: `[REALITY SHIFT: ${from.displayName} → ${to.displayName}]` },
+        { role: 'assistant', content: `${shift.narrative}${mapping}` },
+      ],
+      corrections: [],
+      currentTheme: to.id,
+    },
+    notices: [
+      `► REALITY SHIFTED: ${to.displayName}`,
+      ...applied.map(({ from: old, to: name }) => `► TRANSLATED: ${old.toUpperCase()} → ${name.toUpperCase()}`),
+    ],
+  };
+}
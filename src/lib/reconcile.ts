@@ -0,0 +1,165 @@
+import type { ItemRemove, ItemUpdate } from './schema';
+import type { InventoryItem } from './save-schema';
+import { formatItem } from './inventory';
+
+/**
+ * Words ignored when comparing item names ("the rusty key" = "Rusty Key").
+ */
+const IGNORED_WORDS = new Set(['the', 'a', 'an', 'some', 'my', 'your', 'of']);
+
+/**
+ * Largest edit distance, relative to name length, still treated as the same item.
+ */
+const MAX_DISTANCE_RATIO = 0.25;
+
+/**
+ * Result of reconciling the model's item references against the inventory.
+ */
+export interface Reconciled<T> {
+  /** References rewritten to the exact names of carried items */
+  accepted: T[];
+  /** Hints for the Dungeon Master about references that were rejected */
+  corrections: string[];
+}
+
+/**
+ * Normalizes an item name for comparison: case, punctuation, articles and
+ * plural "s" endings are ignored.
+ *
+ * @param name - The item name
+ * @returns The normalized name
+ */
+export function normalizeItemName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter((word) => word && !IGNORED_WORDS.has(word))
+    .map((word) => (word.length > 3 ? word.replace(/s$/, '') : word))
+    .join(' ');
+}
+
+/**
+ * Levenshtein edit distance between two strings.
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Finds the carried item a model-supplied name refers to.
+ * Tries normalized equality, then a unique item whose name contains every
+ * word, then the single closest name within a small edit distance.
+ *
+ * @param inventory - Items the player is carrying
+ * @param name - The name the model used
+ * @returns The matching item, or undefined if there is no unambiguous match
+ */
+export function matchItem(inventory: InventoryItem[], name: string): InventoryItem | undefined {
+  const target = normalizeItemName(name);
+  if (!target) return undefined;
+
+  const exact = inventory.find((item) => normalizeItemName(item.name) === target);
+  if (exact) return exact;
+
+  const words = target.split(' ');
+  const containing = inventory.filter((item) => {
+    const itemWords = normalizeItemName(item.name).split(' ');
+    return words.every((word) => itemWords.includes(word));
+  });
+  if (containing.length === 1) return containing[0];
+
+  const scored = inventory
+    .map((item) => {
+      const candidate = normalizeItemName(item.name);
+      return { item, ratio: editDistance(candidate, target) / Math.max(candidate.length, target.length) };
+    })
+    .filter(({ ratio }) => ratio <= MAX_DISTANCE_RATIO)
+    .sort((a, b) => a.ratio - b.ratio);
+
+  // Two equally close candidates is a guess, not a match
+  if (scored.length === 0 || (scored.length > 1 && scored[0].ratio === scored[1].ratio)) {
+    return undefined;
+  }
+  return scored[0].item;
+}
+
+/**
+ * Describes the inventory for correction hints.
+ */
+function carrying(inventory: InventoryItem[]): string {
+  return inventory.length > 0 ? inventory.map(formatItem).join(', ') : 'nothing';
+}
+
+/**
+ * Reconciles inventory_remove against what the player actually carries.
+ * Removals of unknown items are rejected, and over-large quantities are clamped.
+ *
+ * @param inventory - Items the player is carrying (after this turn's additions)
+ * @param removes - Removals requested by the model
+ * @returns Accepted removals using exact item names, plus correction hints
+ */
+export function reconcileRemovals(
+  inventory: InventoryItem[],
+  removes: ItemRemove[] = []
+): Reconciled<ItemRemove> {
+  const accepted: ItemRemove[] = [];
+  const corrections: string[] = [];
+
+  for (const remove of removes) {
+    const item = matchItem(inventory, remove.name);
+    if (!item) {
+      corrections.push(
+        `You removed "${remove.name}", but the player never had it. They are carrying: ${carrying(inventory)}.`
+      );
+      continue;
+    }
+
+    const quantity = remove.quantity ?? 1;
+    if (quantity > item.quantity) {
+      corrections.push(
+        `You removed ${quantity}x "${item.name}", but the player only had ${item.quantity}.`
+      );
+    }
+    accepted.push({ name: item.name, quantity: Math.min(quantity, item.quantity) });
+  }
+
+  return { accepted, corrections };
+}
+
+/**
+ * Reconciles inventory_update against what the player actually carries.
+ *
+ * @param inventory - Items the player is carrying
+ * @param updates - Wear requested by the model
+ * @returns Accepted updates using exact item names, plus correction hints
+ */
+export function reconcileItemUpdates(
+  inventory: InventoryItem[],
+  updates: ItemUpdate[] = []
+): Reconciled<ItemUpdate> {
+  const accepted: ItemUpdate[] = [];
+  const corrections: string[] = [];
+
+  for (const update of updates) {
+    const item = matchItem(inventory, update.name);
+    if (!item) {
+      corrections.push(
+        `You changed "${update.name}", but the player doesn't carry it. They are carrying: ${carrying(inventory)}.`
+      );
+      continue;
+    }
+    accepted.push({ ...update, name: item.name });
+  }
+
+  return { accepted, corrections };
+}
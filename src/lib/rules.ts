@@ -0,0 +1,395 @@
+import type { EffectApply, EncounterStart, EndingSignal, GameStateUpdate, ItemAdd, StructuredResponse } from './schema';
+import type { InventoryItem, SavedGameState, SessionState } from './save-schema';
+import { DEFAULT_THEME, getTheme, type RuleBounds, type ThemeKey, type ThemePack } from './themes';
+import { fatalStat, normalizeStats, primaryStat } from './stats';
+import { toItemId } from './inventory';
+import { endRun, isEndingAllowed } from './endings';
+import { createSeed } from './random';
+
+/**
+ * A single change the rules made to the model's update.
+ */
+export interface RuleAdjustment {
+  rule:
+    | 'max_damage'
+    | 'max_heal'
+    | 'dead_heal'
+    | 'items_per_turn'
+    | 'inventory_size'
+    | 'unknown_stat'
+    | 'stat_change'
+    | 'effect_duration'
+    | 'effect_tick'
+    | 'enemy_hp'
+    | 'enemy_attack'
+    | 'ending'
+    | 'visual_cue'
+    | 'sound_cue';
+  /** What the model asked for */
+  requested: unknown;
+  /** What was applied instead (null when rejected outright) */
+  applied: unknown;
+}
+
+/**
+ * Player state the rules are checked against.
+ */
+export interface RulesPlayerState {
+  health: number;
+  inventory: InventoryItem[];
+}
+
+/**
+ * Result of enforcing the rules on a response.
+ */
+export interface RulesResult {
+  response: StructuredResponse;
+  adjustments: RuleAdjustment[];
+}
+
+/**
+ * Keeps a change to a stat within the theme's per-turn damage and heal bounds.
+ *
+ * @param change - The change to a stat
+ * @param bounds - The theme's rule bounds
+ * @returns The change, clamped
+ */
+export function clampChange(change: number, bounds: RuleBounds): number {
+  return Math.max(-bounds.maxDamagePerTurn, Math.min(bounds.maxHealPerTurn, change));
+}
+
+/**
+ * Folds a stat_changes entry for the primary stat into health_change, so
+ * the health bounds apply to it, clamps changes to the other stats to the
+ * same bounds and drops changes to stats the theme doesn't declare.
+ */
+function enforceStats(
+  update: GameStateUpdate,
+  pack: ThemePack,
+  adjustments: RuleAdjustment[]
+): { healthChange: number | undefined; statChanges: Record<string, number> | undefined } {
+  if (!update.stat_changes) {
+    return { healthChange: update.health_change, statChanges: undefined };
+  }
+
+  const primary = primaryStat(pack).id;
+  let healthChange = update.health_change;
+  const statChanges: Record<string, number> = {};
+
+  for (const [id, change] of Object.entries(update.stat_changes)) {
+    if (id === primary) {
+      healthChange = (healthChange ?? 0) + change;
+    } else if (pack.stats.some((stat) => stat.id === id)) {
+      const clamped = clampChange(change, pack.rules);
+      if (clamped !== change) {
+        adjustments.push({ rule: 'stat_change', requested: { [id]: change }, applied: { [id]: clamped } });
+      }
+      statChanges[id] = clamped;
+    } else {
+      adjustments.push({ rule: 'unknown_stat', requested: { [id]: change }, applied: null });
+    }
+  }
+
+  return { healthChange, statChanges };
+}
+
+/**
+ * Clamps or rejects the health change.
+ */
+function enforceHealth(
+  healthChange: number | undefined,
+  player: RulesPlayerState,
+  bounds: RuleBounds,
+  adjustments: RuleAdjustment[]
+): number | undefined {
+  if (healthChange === undefined) return undefined;
+
+  if (healthChange > 0 && player.health <= 0) {
+    adjustments.push({ rule: 'dead_heal', requested: healthChange, applied: null });
+    return undefined;
+  }
+  if (healthChange < -bounds.maxDamagePerTurn) {
+    adjustments.push({ rule: 'max_damage', requested: healthChange, applied: -bounds.maxDamagePerTurn });
+    return -bounds.maxDamagePerTurn;
+  }
+  if (healthChange > bounds.maxHealPerTurn) {
+    adjustments.push({ rule: 'max_heal', requested: healthChange, applied: bounds.maxHealPerTurn });
+    return bounds.maxHealPerTurn;
+  }
+  return healthChange;
+}
+
+/**
+ * Trims item additions to the per-turn allowance and the carrying capacity.
+ * Additions that stack onto a carried item don't take a new inventory slot.
+ */
+function enforceItems(
+  adds: ItemAdd[] | undefined,
+  player: RulesPlayerState,
+  bounds: RuleBounds,
+  adjustments: RuleAdjustment[]
+): ItemAdd[] | undefined {
+  if (!adds) return undefined;
+
+  const accepted: ItemAdd[] = [];
+  const slots = new Set(player.inventory.map((item) => item.id));
+  let allowance = bounds.maxItemsPerTurn;
+
+  for (const add of adds) {
+    const id = toItemId(add.name);
+    if (!slots.has(id) && slots.size >= bounds.maxInventorySize) {
+      adjustments.push({ rule: 'inventory_size', requested: add, applied: null });
+      continue;
+    }
+
+    const requested = add.quantity ?? 1;
+    const quantity = Math.min(requested, allowance);
+    if (quantity < requested) {
+      adjustments.push({
+        rule: 'items_per_turn',
+        requested: add,
+        applied: quantity > 0 ? { ...add, quantity } : null,
+      });
+    }
+    if (quantity <= 0) continue;
+
+    allowance -= quantity;
+    slots.add(id);
+    accepted.push(quantity === requested ? add : { ...add, quantity });
+  }
+
+  return accepted;
+}
+
+/**
+ * Caps effect durations and keeps each per-turn tick within the damage and
+ * heal bounds, dropping ticks on stats the theme doesn't declare.
+ */
+function enforceEffects(
+  adds: EffectApply[] | undefined,
+  pack: ThemePack,
+  adjustments: RuleAdjustment[]
+): EffectApply[] | undefined {
+  if (!adds) return undefined;
+  const { maxEffectDuration } = pack.rules;
+
+  return adds.map((add) => {
+    let effect = add;
+    if (add.duration > maxEffectDuration) {
+      adjustments.push({ rule: 'effect_duration', requested: add, applied: maxEffectDuration });
+      effect = { ...effect, duration: maxEffectDuration };
+    }
+    if (!add.tick) return effect;
+
+    const tick: Record<string, number> = {};
+    for (const [id, change] of Object.entries(add.tick)) {
+      if (!pack.stats.some((stat) => stat.id === id)) {
+        adjustments.push({ rule: 'unknown_stat', requested: { [id]: change }, applied: null });
+        continue;
+      }
+      const clamped = clampChange(change, pack.rules);
+      if (clamped !== change) {
+        adjustments.push({ rule: 'effect_tick', requested: { [id]: change }, applied: { [id]: clamped } });
+      }
+      tick[id] = clamped;
+    }
+    return { ...effect, tick };
+  });
+}
+
+/**
+ * Caps a new enemy's hit points, and keeps its hits within the damage bound
+ * so a single round can't do more than a single turn could.
+ */
+function enforceEncounter(
+  start: EncounterStart | undefined,
+  bounds: RuleBounds,
+  adjustments: RuleAdjustment[]
+): EncounterStart | undefined {
+  if (!start) return undefined;
+
+  let enemy = start;
+  if (start.hp > bounds.maxEnemyHp) {
+    adjustments.push({ rule: 'enemy_hp', requested: start.hp, applied: bounds.maxEnemyHp });
+    enemy = { ...enemy, hp: bounds.maxEnemyHp };
+  }
+  const attackMax = Math.min(start.attack_max, bounds.maxDamagePerTurn);
+  const attackMin = Math.min(start.attack_min, attackMax);
+  if (attackMax !== start.attack_max || attackMin !== start.attack_min) {
+    adjustments.push({
+      rule: 'enemy_attack',
+      requested: [start.attack_min, start.attack_max],
+      applied: [attackMin, attackMax],
+    });
+    enemy = { ...enemy, attack_min: attackMin, attack_max: attackMax };
+  }
+  return enemy;
+}
+
+/**
+ * Drops an ending the theme pack doesn't offer (a victory or escape it
+ * never described).
+ */
+function enforceEnding(
+  ending: EndingSignal | undefined,
+  pack: ThemePack,
+  adjustments: RuleAdjustment[]
+): EndingSignal | undefined {
+  if (!ending || isEndingAllowed(pack, ending.type)) return ending;
+  adjustments.push({ rule: 'ending', requested: ending, applied: null });
+  return undefined;
+}
+
+/**
+ * Replaces a cue the theme pack doesn't allow with 'none'.
+ */
+function enforceCue<T extends string>(
+  cue: T,
+  allowed: readonly T[],
+  rule: 'visual_cue' | 'sound_cue',
+  adjustments: RuleAdjustment[]
+): T | 'none' {
+  if (cue === 'none' || allowed.includes(cue)) return cue;
+  adjustments.push({ rule, requested: cue, applied: 'none' });
+  return 'none';
+}
+
+/**
+ * Checks the Dungeon Master's state update against the theme pack's bounds,
+ * clamping out-of-range values and rejecting impossible changes, and drops
+ * cues and endings the pack doesn't allow. The narrative itself is left untouched.
+ *
+ * @param response - The validated response from the provider
+ * @param player - Health and inventory before the turn
+ * @param theme - Active theme pack, selects the bounds and allowed cues
+ * @returns The response with a lawful state update, and what was changed
+ */
+export function enforceRules(
+  response: StructuredResponse,
+  player: RulesPlayerState,
+  theme: ThemeKey = DEFAULT_THEME
+): RulesResult {
+  const pack = getTheme(theme);
+  const bounds = pack.rules;
+  const adjustments: RuleAdjustment[] = [];
+  const update = response.game_state_update;
+
+  const { healthChange, statChanges } = enforceStats(update, pack, adjustments);
+  const gameStateUpdate: GameStateUpdate = {
+    ...update,
+    health_change: enforceHealth(healthChange, player, bounds, adjustments),
+    stat_changes: statChanges,
+    effects_add: enforceEffects(update.effects_add, pack, adjustments),
+    inventory_add: enforceItems(update.inventory_add, player, bounds, adjustments),
+  };
+
+  const encounterStart = enforceEncounter(response.encounter_start, bounds, adjustments);
+  const ending = enforceEnding(response.ending, pack, adjustments);
+  const visualCue = enforceCue(response.visual_cue, pack.visualCues, 'visual_cue', adjustments);
+  const soundCue = enforceCue(response.sound_cue, pack.soundCues, 'sound_cue', adjustments);
+
+  if (adjustments.length === 0) {
+    return { response, adjustments };
+  }
+  return {
+    response: {
+      ...response,
+      visual_cue: visualCue,
+      sound_cue: soundCue,
+      game_state_update: gameStateUpdate,
+      encounter_start: encounterStart,
+      ending,
+    },
+    adjustments,
+  };
+}
+
+/**
+ * Rebuilds a session from a client save within what play could have
+ * produced: stats are clamped into their ranges, the inventory, effects
+ * and enemy are held to the theme's bounds and the ending is worked out
+ * again instead of trusted. The story itself (history, map, memory,
+ * characters and quests) is kept as saved.
+ *
+ * @param saved - A validated client snapshot
+ * @returns The state to start the restored session with
+ */
+export function enforceSavedState(saved: SavedGameState): SessionState {
+  const pack = getTheme(saved.currentTheme);
+  const bounds = pack.rules;
+  const turns = Math.floor(saved.history.length / 2);
+  const stats = normalizeStats(pack, saved.stats, saved.health);
+
+  // No more items than the turns played could have handed out
+  let allowance = bounds.maxItemsPerTurn * turns;
+  const inventory = saved.inventory.slice(0, bounds.maxInventorySize).flatMap((item) => {
+    const quantity = Math.min(item.quantity, allowance);
+    allowance -= quantity;
+    return quantity > 0 ? [{ ...item, quantity }] : [];
+  });
+
+  const effects = saved.effects.map((effect) => ({
+    ...effect,
+    remaining: Math.min(effect.remaining, bounds.maxEffectDuration),
+    tick: Object.fromEntries(Object.entries(effect.tick)
+      .filter(([id]) => pack.stats.some((stat) => stat.id === id))
+      .map(([id, change]) => [id, clampChange(change, bounds)])),
+  }));
+
+  let encounter = saved.encounter;
+  if (encounter) {
+    const { enemy } = encounter;
+    const maxHp = Math.min(enemy.maxHp, bounds.maxEnemyHp);
+    const attackMax = Math.min(enemy.attackMax, bounds.maxDamagePerTurn);
+    encounter = {
+      ...encounter,
+      enemy: { ...enemy, maxHp, hp: Math.min(enemy.hp, maxHp), attackMax, attackMin: Math.min(enemy.attackMin, attackMax) },
+    };
+  }
+
+  const tally = { ...saved.tally, itemsFound: Math.min(saved.tally.itemsFound, bounds.maxItemsPerTurn * turns) };
+  const signal = saved.ending && isEndingAllowed(pack, saved.ending.type)
+    ? { type: saved.ending.type, epitaph: saved.ending.epitaph }
+    : undefined;
+  const ending = endRun(pack, fatalStat(pack, stats), signal, turns, tally);
+
+  return {
+    health: stats[primaryStat(pack).id],
+    stats,
+    effects,
+    encounter,
+    seed: saved.seed ?? createSeed(),
+    npcs: saved.npcs,
+    quests: saved.quests,
+    inventory,
+    isGameOver: ending !== null,
+    tally,
+    ending,
+    world: saved.world,
+    history: saved.history,
+    memory: saved.memory,
+    corrections: [],
+    providerCalls: 0,
+    currentTheme: pack.id,
+  };
+}
+
+/**
+ * Logs rule adjustments as one structured line each, for tuning the prompts.
+ *
+ * @param adjustments - Adjustments made this turn
+ * @param context - Theme and command the turn was for
+ */
+export function logRuleAdjustments(
+  adjustments: RuleAdjustment[],
+  context: { theme?: ThemeKey; command: string }
+): void {
+  for (const adjustment of adjustments) {
+    console.warn(JSON.stringify({
+      event: 'rules.adjustment',
+      theme: context.theme ?? DEFAULT_THEME,
+      command: context.command,
+      ...adjustment,
+    }));
+  }
+}
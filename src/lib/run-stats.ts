@@ -0,0 +1,251 @@
+import type { StructuredResponse } from './schema';
+import type { InventoryItem, LifetimeStats, RunEnding, RunStats } from './save-schema';
+import { fatalStat, normalizeStats, primaryStat, type Stats } from './stats';
+import type { ThemePack } from './themes';
+import { isKnownVerb } from './parser';
+
+/**
+ * Longest gap between two actions that still counts as play time.
+ * Anything longer is the player stepping away.
+ */
+const IDLE_CAP_MS = 2 * 60 * 1000;
+
+/**
+ * Player state compared before and after a turn.
+ */
+export interface TurnSnapshot {
+  health: number;
+  stats: Stats;
+  inventory: InventoryItem[];
+}
+
+/**
+ * Adds one to a count.
+ */
+function increment(counts: Record<string, number>, key: string, by = 1): Record<string, number> {
+  return { ...counts, [key]: (counts[key] ?? 0) + by };
+}
+
+/**
+ * Adds counts together.
+ */
+function mergeCounts(a: Record<string, number>, b: Record<string, number>): Record<string, number> {
+  return Object.entries(b).reduce((counts, [key, count]) => increment(counts, key, count), a);
+}
+
+/**
+ * Folds counts for commands the parser doesn't recognize (typos, free
+ * text) into a single 'other' count, so they don't each get a key.
+ */
+function foldCommands(commands: Record<string, number>): Record<string, number> {
+  return Object.entries(commands).reduce(
+    (counts, [verb, count]) => increment(counts, isKnownVerb(verb) ? verb : 'other', count),
+    {} as Record<string, number>
+  );
+}
+
+/**
+ * Total quantity carried per item id.
+ */
+function quantities(inventory: InventoryItem[]): Map<string, number> {
+  return new Map(inventory.map((item) => [item.id, item.quantity]));
+}
+
+/**
+ * Adds the time since the last action, ignoring long idle stretches.
+ *
+ * @param stats - The run's statistics
+ * @param elapsed - Milliseconds since the last action
+ * @returns The updated statistics
+ */
+export function recordTime(stats: RunStats, elapsed: number): RunStats {
+  return { ...stats, timePlayed: stats.timePlayed + Math.min(Math.max(0, elapsed), IDLE_CAP_MS) };
+}
+
+/**
+ * Counts a typed command by its canonical verb, or as 'other' if the
+ * parser didn't recognize it.
+ *
+ * @param stats - The run's statistics
+ * @param verb - The parsed verb
+ * @returns The updated statistics
+ */
+export function recordCommand(stats: RunStats, verb: string): RunStats {
+  return { ...stats, commands: increment(stats.commands, isKnownVerb(verb) ? verb : 'other') };
+}
+
+/**
+ * Counts a resolved turn: damage taken and healed on the primary stat,
+ * items gained and lost, and the cues the Dungeon Master triggered.
+ *
+ * @param stats - The run's statistics
+ * @param pack - The theme pack, for the primary stat
+ * @param before - Player state before the turn
+ * @param after - Player state after the turn
+ * @param response - The turn's response, for its cues
+ * @returns The updated statistics
+ */
+export function recordTurn(
+  stats: RunStats,
+  pack: ThemePack,
+  before: TurnSnapshot,
+  after: TurnSnapshot,
+  response: Pick<StructuredResponse, 'visual_cue' | 'sound_cue'>
+): RunStats {
+  const primary = primaryStat(pack).id;
+  const change = normalizeStats(pack, after.stats, after.health)[primary]
+    - normalizeStats(pack, before.stats, before.health)[primary];
+
+  const had = quantities(before.inventory);
+  const has = quantities(after.inventory);
+  let acquired = 0;
+  let used = 0;
+  for (const id of new Set([...had.keys(), ...has.keys()])) {
+    const delta = (has.get(id) ?? 0) - (had.get(id) ?? 0);
+    if (delta > 0) acquired += delta;
+    else used -= delta;
+  }
+
+  return {
+    ...stats,
+    turns: stats.turns + 1,
+    damageTaken: stats.damageTaken + Math.max(0, -change),
+    healed: stats.healed + Math.max(0, change),
+    itemsAcquired: stats.itemsAcquired + acquired,
+    itemsUsed: stats.itemsUsed + used,
+    visualCues: response.visual_cue !== 'none' ? increment(stats.visualCues, response.visual_cue) : stats.visualCues,
+    soundCues: response.sound_cue !== 'none' ? increment(stats.soundCues, response.sound_cue) : stats.soundCues,
+  };
+}
+
+/**
+ * Names what killed the player: the enemy they were fighting, else the
+ * stat that ran out, else the ending itself. Runs that end in victory or
+ * escape have no cause.
+ *
+ * @param pack - The theme pack, for stat labels
+ * @param ending - How the run ended
+ * @param stats - Final stat values
+ * @param slainBy - The enemy being fought, if any
+ * @returns The cause, or null if the player survived
+ */
+export function deathCause(pack: ThemePack, ending: RunEnding, stats: Stats, slainBy?: string): string | null {
+  if (ending.type === 'victory' || ending.type === 'escape') return null;
+  return slainBy?.toUpperCase() ?? fatalStat(pack, stats)?.label ?? ending.title;
+}
+
+/**
+ * Totals for a theme that has never been played.
+ */
+export function emptyLifetimeStats(): LifetimeStats {
+  return {
+    runs: 0,
+    turns: 0,
+    bestTurns: 0,
+    commands: {},
+    damageTaken: 0,
+    healed: 0,
+    itemsAcquired: 0,
+    itemsUsed: 0,
+    timePlayed: 0,
+    visualCues: {},
+    soundCues: {},
+    endings: {},
+    deathsByCause: {},
+  };
+}
+
+/**
+ * Adds a finished run to a theme's lifetime totals.
+ *
+ * @param lifetime - Totals so far
+ * @param run - The finished run's statistics
+ * @param ending - How it ended
+ * @returns The new totals
+ */
+export function addRun(lifetime: LifetimeStats, run: RunStats, ending: RunEnding): LifetimeStats {
+  return {
+    runs: lifetime.runs + 1,
+    turns: lifetime.turns + run.turns,
+    bestTurns: Math.max(lifetime.bestTurns, run.turns),
+    // Unrecognized verbs in older stored totals are merged into 'other'
+    commands: mergeCounts(foldCommands(lifetime.commands), foldCommands(run.commands)),
+    damageTaken: lifetime.damageTaken + run.damageTaken,
+    healed: lifetime.healed + run.healed,
+    itemsAcquired: lifetime.itemsAcquired + run.itemsAcquired,
+    itemsUsed: lifetime.itemsUsed + run.itemsUsed,
+    timePlayed: lifetime.timePlayed + run.timePlayed,
+    visualCues: mergeCounts(lifetime.visualCues, run.visualCues),
+    soundCues: mergeCounts(lifetime.soundCues, run.soundCues),
+    endings: increment(lifetime.endings, ending.type),
+    deathsByCause: run.causeOfDeath ? increment(lifetime.deathsByCause, run.causeOfDeath) : lifetime.deathsByCause,
+  };
+}
+
+/**
+ * Formats a duration, e.g. "4m 05s" or "1h 12m".
+ *
+ * @param ms - Milliseconds
+ * @returns The formatted duration
+ */
+export function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return hours > 0 ? `${hours}h ${pad(minutes)}m` : `${minutes}m ${pad(seconds % 60)}s`;
+}
+
+/**
+ * Lists the most frequent keys of a count, e.g. "LOOK x5, GO x3".
+ *
+ * @param counts - Counts by key
+ * @param limit - How many to list
+ * @returns The formatted list, or "NONE"
+ */
+export function formatTop(counts: Record<string, number>, limit = 3): string {
+  const top = Object.entries(counts)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, limit)
+    .map(([key, count]) => `${key.toUpperCase()} x${count}`);
+  return top.length > 0 ? top.join(', ') : 'NONE';
+}
+
+/**
+ * Formats the current run's statistics for the stats command.
+ *
+ * @param stats - The run's statistics
+ * @returns The system entry text
+ */
+export function formatRunStats(stats: RunStats): string {
+  return [
+    '► THIS RUN',
+    `  TURNS: ${stats.turns}   TIME: ${formatDuration(stats.timePlayed)}`,
+    `  DAMAGE TAKEN: ${stats.damageTaken}   HEALED: ${stats.healed}`,
+    `  ITEMS ACQUIRED: ${stats.itemsAcquired}   USED: ${stats.itemsUsed}`,
+    `  COMMANDS: ${formatTop(stats.commands)}`,
+    `  VISIONS: ${formatTop(stats.visualCues)}   SOUNDS: ${formatTop(stats.soundCues)}`,
+  ].join('\n');
+}
+
+/**
+ * Formats a theme's lifetime totals for the stats command.
+ *
+ * @param name - The theme's display name
+ * @param lifetime - Totals over its finished runs
+ * @returns The system entry text
+ */
+export function formatLifetimeStats(name: string, lifetime: LifetimeStats): string {
+  if (lifetime.runs === 0) {
+    return `► ${name} — NO FINISHED RUNS YET`;
+  }
+  return [
+    `► ${name} — ${lifetime.runs} RUN${lifetime.runs === 1 ? '' : 'S'}`,
+    `  TURNS: ${lifetime.turns}   LONGEST RUN: ${lifetime.bestTurns}   TIME: ${formatDuration(lifetime.timePlayed)}`,
+    `  ENDINGS: ${formatTop(lifetime.endings, 4)}`,
+    `  DEATHS BY: ${formatTop(lifetime.deathsByCause)}`,
+    `  DAMAGE TAKEN: ${lifetime.damageTaken}   HEALED: ${lifetime.healed}`,
+    `  ITEMS ACQUIRED: ${lifetime.itemsAcquired}   USED: ${lifetime.itemsUsed}`,
+    `  COMMANDS: ${formatTop(lifetime.commands)}`,
+  ].join('\n');
+}
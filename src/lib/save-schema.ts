@@ -0,0 +1,368 @@
+import { z } from 'zod';
+import { DirectionEnum, DispositionEnum, EndingTypeEnum, EnemyBehaviorEnum, ItemTagEnum, QuestStatusEnum } from './schema';
+import { toItemId } from './inventory';
+import { createSeed } from './random';
+
+/**
+ * Current save format version.
+ * Bump when the persisted shape changes incompatibly.
+ */
+export const SAVE_VERSION = 1;
+
+/**
+ * A theme pack id. Packs are discovered at startup, so any id is accepted
+ * here; unknown ids fall back to the default pack when played.
+ */
+export const ThemeKeySchema = z.string().min(1);
+
+/**
+ * A run seed. It drives every random roll in the run, so the same seed
+ * replays the same dice.
+ */
+export const SeedSchema = z.string().trim().min(1).max(32);
+
+export const ConversationTurnSchema = z.object({
+  role: z.enum(['user', 'assistant']),
+  content: z.string(),
+});
+
+export const NarrativeEntrySchema = z.object({
+  id: z.string(),
+  type: z.enum(['player', 'narrator', 'ascii', 'system']),
+  content: z.string(),
+  timestamp: z.number(),
+});
+
+export const InventoryItemSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  quantity: z.number().int().min(1),
+  description: z.string(),
+  tags: z.array(ItemTagEnum),
+  charges: z.number().int().min(0).optional(),
+  durability: z.number().int().min(0).optional(),
+});
+
+/**
+ * Accepts rich items, or plain item names from saves made before items
+ * had quantities and descriptions.
+ */
+const SavedInventoryItemSchema = z.union([
+  InventoryItemSchema,
+  z.string().transform((name) => ({
+    id: toItemId(name),
+    name,
+    quantity: 1,
+    description: '',
+    tags: [],
+  })),
+]);
+
+export const WorldLocationSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  visited: z.boolean(),
+  exits: z.partialRecord(DirectionEnum, z.string()),
+});
+
+/**
+ * Remembered geography: where the player is and every location they know of.
+ */
+export const WorldStateSchema = z.object({
+  currentLocationId: z.string().nullable(),
+  locations: z.record(z.string(), WorldLocationSchema),
+});
+
+/**
+ * Long-term memory: a running summary of turns that have left the recent
+ * history window, plus facts the Dungeon Master pinned.
+ */
+export const MemoryStateSchema = z.object({
+  summary: z.string(),
+  /** How many history messages the summary already covers */
+  summarizedThrough: z.number().int().min(0),
+  facts: z.array(z.string()),
+});
+
+const emptyMemory = () => ({ summary: '', summarizedThrough: 0, facts: [] });
+
+/**
+ * Stat values by stat id (see the theme pack's stats).
+ */
+export const StatsSchema = z.record(z.string(), z.number());
+
+/**
+ * An ongoing condition (poisoned, blessed...) and what it does each turn.
+ */
+export const ActiveEffectSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  /** Turns left, counting the next one */
+  remaining: z.number().int().min(1),
+  /** Stat change applied every turn, by stat id */
+  tick: StatsSchema,
+});
+
+/**
+ * A hostile creature the player is fighting.
+ */
+export const EnemySchema = z.object({
+  name: z.string(),
+  description: z.string(),
+  hp: z.number().int().min(0),
+  maxHp: z.number().int().min(1),
+  /** Damage range of one of its hits */
+  attackMin: z.number().int().min(0),
+  attackMax: z.number().int().min(0),
+  behavior: EnemyBehaviorEnum,
+});
+
+/**
+ * A turn-based fight in progress.
+ */
+export const EncounterSchema = z.object({
+  enemy: EnemySchema,
+  /** Rounds fought so far */
+  round: z.number().int().min(0),
+});
+
+/**
+ * A named character the Dungeon Master introduced, remembered for the
+ * rest of the run.
+ */
+export const NpcSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  /** Where they were last seen, if known */
+  locationId: z.string().nullable(),
+  disposition: DispositionEnum,
+  alive: z.boolean(),
+  /** Things they know, said or promised, oldest first */
+  memory: z.array(z.string()),
+  /** Turn they last appeared or were spoken to */
+  lastSeenTurn: z.number().int().min(0),
+});
+
+/**
+ * An objective the Dungeon Master gave the player, and how it stands.
+ */
+export const QuestSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string(),
+  status: QuestStatusEnum,
+  /** Progress recorded so far, oldest first */
+  notes: z.array(z.string()),
+  /** Turn it was opened, and when */
+  openedTurn: z.number().int().min(0),
+  openedAt: z.number(),
+  /** Last time it changed */
+  updatedAt: z.number(),
+  /** Turn it was completed or failed, null while active */
+  closedTurn: z.number().int().min(0).nullable(),
+});
+
+/**
+ * Running totals for the end-of-run summary.
+ */
+export const RunTallySchema = z.object({
+  /** Items picked up, counting quantity */
+  itemsFound: z.number().int().min(0),
+  /** Total lost from the primary stat */
+  damageTaken: z.number().min(0),
+});
+
+const emptyTally = () => ({ itemsFound: 0, damageTaken: 0 });
+
+/**
+ * How a run ended, and a summary of it for the end screen.
+ */
+export const RunEndingSchema = z.object({
+  type: EndingTypeEnum,
+  /** Headline for the end screen, from the theme pack */
+  title: z.string(),
+  epitaph: z.string(),
+  /** Turns taken, counting the last */
+  turns: z.number().int().min(0),
+  itemsFound: z.number().int().min(0),
+  damageTaken: z.number().min(0),
+});
+
+/**
+ * Counts by key, e.g. commands by verb or cues by name.
+ */
+export const CountsSchema = z.record(z.string(), z.number().int().min(0));
+
+/**
+ * What the player did during a run, measured by the client.
+ */
+export const RunStatsSchema = z.object({
+  /** Turns the Dungeon Master resolved, not counting the prologue */
+  turns: z.number().int().min(0),
+  /** Commands typed, by canonical verb (local verbs included) */
+  commands: CountsSchema,
+  damageTaken: z.number().min(0),
+  healed: z.number().min(0),
+  /** Items gained and lost, counting quantity */
+  itemsAcquired: z.number().int().min(0),
+  itemsUsed: z.number().int().min(0),
+  /** Active play time in milliseconds; long idle stretches don't count */
+  timePlayed: z.number().min(0),
+  visualCues: CountsSchema,
+  soundCues: CountsSchema,
+  /** What killed the player, once the run ends in death or madness */
+  causeOfDeath: z.string().nullable(),
+});
+
+/**
+ * Statistics for a fresh run.
+ */
+export const emptyRunStats = (): z.infer<typeof RunStatsSchema> => ({
+  turns: 0,
+  commands: {},
+  damageTaken: 0,
+  healed: 0,
+  itemsAcquired: 0,
+  itemsUsed: 0,
+  timePlayed: 0,
+  visualCues: {},
+  soundCues: {},
+  causeOfDeath: null,
+});
+
+/**
+ * Totals over every finished run of one theme.
+ */
+export const LifetimeStatsSchema = z.object({
+  runs: z.number().int().min(0),
+  turns: z.number().int().min(0),
+  /** Longest run, in turns */
+  bestTurns: z.number().int().min(0),
+  commands: CountsSchema,
+  damageTaken: z.number().min(0),
+  healed: z.number().min(0),
+  itemsAcquired: z.number().int().min(0),
+  itemsUsed: z.number().int().min(0),
+  timePlayed: z.number().min(0),
+  visualCues: CountsSchema,
+  soundCues: CountsSchema,
+  /** Runs by how they ended */
+  endings: CountsSchema,
+  deathsByCause: CountsSchema,
+});
+
+/**
+ * Achievements unlocked on this device, and the protocols played.
+ */
+export const AchievementRecordSchema = z.object({
+  /** When each achievement was unlocked, and in which theme, by id */
+  unlocked: z.record(z.string(), z.object({ unlockedAt: z.number(), theme: ThemeKeySchema })),
+  themes: z.array(ThemeKeySchema),
+});
+
+/**
+ * The slice of GameState that survives a save/load round trip.
+ * UI-only flags (processing, typing, mute, text speed) are not persisted.
+ */
+export const SavedGameStateSchema = z.object({
+  /** Value of the theme's primary stat */
+  health: z.number(),
+  /** Every stat the theme declares, by id; older saves only have health */
+  stats: StatsSchema.default(() => ({})),
+  effects: z.array(ActiveEffectSchema).default(() => []),
+  encounter: EncounterSchema.nullable().default(null),
+  /** Missing from saves made before runs were seeded */
+  seed: SeedSchema.optional(),
+  npcs: z.record(z.string(), NpcSchema).default(() => ({})),
+  quests: z.array(QuestSchema).default(() => []),
+  inventory: z.array(SavedInventoryItemSchema),
+  isGameOver: z.boolean(),
+  tally: RunTallySchema.default(emptyTally),
+  ending: RunEndingSchema.nullable().default(null),
+  runStats: RunStatsSchema.default(emptyRunStats),
+  history: z.array(ConversationTurnSchema),
+  narrativeEntries: z.array(NarrativeEntrySchema),
+  currentTheme: ThemeKeySchema,
+  world: WorldStateSchema.default(() => ({ currentLocationId: null, locations: {} })),
+  memory: MemoryStateSchema.default(emptyMemory),
+  /** Server session the snapshot was taken from, if any */
+  sessionId: z.string().optional(),
+  /** Server signature of the state; saves without a valid one can't be restored */
+  signature: z.string().optional(),
+});
+
+export const SaveGameSchema = z.object({
+  version: z.literal(SAVE_VERSION),
+  slot: z.string().min(1),
+  name: z.string(),
+  savedAt: z.number(),
+  state: SavedGameStateSchema,
+});
+
+/**
+ * The authoritative game state the server keeps for a session.
+ * Clients only ever receive it; they never send it back. A restored save
+ * is rebuilt from a SavedGameState the server signed, never from one the
+ * client wrote.
+ */
+export const SessionStateSchema = z.object({
+  /** Value of the theme's primary stat */
+  health: z.number(),
+  stats: StatsSchema.default(() => ({})),
+  effects: z.array(ActiveEffectSchema).default(() => []),
+  /** The fight in progress, if any */
+  encounter: EncounterSchema.nullable().default(null),
+  /** Sessions stored before runs were seeded get a fresh seed */
+  seed: SeedSchema.default(createSeed),
+  /** Named characters met so far, by id */
+  npcs: z.record(z.string(), NpcSchema).default(() => ({})),
+  /** Objectives opened so far, in the order they were opened */
+  quests: z.array(QuestSchema).default(() => []),
+  inventory: z.array(InventoryItemSchema),
+  isGameOver: z.boolean(),
+  tally: RunTallySchema.default(emptyTally),
+  /** How the run ended, null while it goes on */
+  ending: RunEndingSchema.nullable().default(null),
+  world: WorldStateSchema,
+  history: z.array(ConversationTurnSchema),
+  memory: MemoryStateSchema.default(emptyMemory),
+  /** Rejected state changes from the last turn, reported to the AI next turn */
+  corrections: z.array(z.string()),
+  /** Narrative requests sent so far; the scripted provider replays its script from here */
+  providerCalls: z.number().int().min(0).default(0),
+  currentTheme: ThemeKeySchema,
+});
+
+/**
+ * A server-side session. Sessions rebuilt from a client save are marked
+ * 'restored' so competitive features can tell them apart from fresh runs.
+ */
+export const GameSessionSchema = z.object({
+  id: z.string(),
+  origin: z.enum(['new', 'restored']),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+  state: SessionStateSchema,
+});
+
+// Export TypeScript types from schema
+export type SavedGameState = z.infer<typeof SavedGameStateSchema>;
+export type SaveGame = z.infer<typeof SaveGameSchema>;
+export type InventoryItem = z.infer<typeof InventoryItemSchema>;
+export type WorldLocation = z.infer<typeof WorldLocationSchema>;
+export type WorldState = z.infer<typeof WorldStateSchema>;
+export type MemoryState = z.infer<typeof MemoryStateSchema>;
+export type ActiveEffect = z.infer<typeof ActiveEffectSchema>;
+export type Enemy = z.infer<typeof EnemySchema>;
+export type Encounter = z.infer<typeof EncounterSchema>;
+export type Npc = z.infer<typeof NpcSchema>;
+export type Quest = z.infer<typeof QuestSchema>;
+export type RunTally = z.infer<typeof RunTallySchema>;
+export type RunEnding = z.infer<typeof RunEndingSchema>;
+export type RunStats = z.infer<typeof RunStatsSchema>;
+export type LifetimeStats = z.infer<typeof LifetimeStatsSchema>;
+export type AchievementRecord = z.infer<typeof AchievementRecordSchema>;
+export type SessionState = z.infer<typeof SessionStateSchema>;
+export type GameSession = z.infer<typeof GameSessionSchema>;
@@ -0,0 +1,83 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { SavedGameStateSchema, type SavedGameState, type SessionState } from './save-schema';
+
+/**
+ * The part of a save the server vouches for: everything the session is
+ * rebuilt from. The narrative log and run statistics are display only.
+ */
+const SignedStateSchema = SavedGameStateSchema.pick({
+  health: true,
+  stats: true,
+  effects: true,
+  encounter: true,
+  seed: true,
+  npcs: true,
+  quests: true,
+  inventory: true,
+  isGameOver: true,
+  tally: true,
+  ending: true,
+  history: true,
+  currentTheme: true,
+  world: true,
+  memory: true,
+});
+
+let secret: string | undefined;
+
+/**
+ * Gets the key saves are signed with (SAVE_SECRET). Without one, a random
+ * key is made for this process, so saves only restore until it restarts.
+ */
+function getSecret(): string {
+  if (!secret) {
+    secret = process.env.SAVE_SECRET || randomBytes(32).toString('hex');
+    if (!process.env.SAVE_SECRET) {
+      console.warn('SAVE_SECRET is not set: saves will not restore after a restart');
+    }
+  }
+  return secret;
+}
+
+/**
+ * Serializes a value with its object keys sorted, so the same state always
+ * gives the same text whichever order its keys were written in.
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, field]) => field !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, field]) => `${JSON.stringify(key)}:${canonicalJson(field)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Signs the state the server hands to the client, so a save made from it
+ * can later be restored without trusting the client.
+ *
+ * @param state - Authoritative session state, or a save made from one
+ * @returns The signature, as hex
+ */
+export function signState(state: SessionState | SavedGameState): string {
+  // Both sides go through the save schema, so defaults and dropped keys match
+  const signed = canonicalJson(SignedStateSchema.parse(state));
+  return createHmac('sha256', getSecret()).update(signed).digest('hex');
+}
+
+/**
+ * Checks that a save is exactly a state this server signed.
+ *
+ * @param saved - A validated client snapshot
+ * @returns True if its signature matches its contents
+ */
+export function verifySnapshot(saved: SavedGameState): boolean {
+  if (!saved.signature) return false;
+  const expected = Buffer.from(signState(saved), 'hex');
+  const actual = Buffer.from(saved.signature, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,96 @@
+import { SaveGameSchema, type SaveGame } from './save-schema';
+
+/**
+ * Slot id written after every resolved turn.
+ */
+export const AUTOSAVE_SLOT = 'autosave';
+
+/**
+ * Manual save slots offered in the BIOS menu.
+ */
+export const SAVE_SLOTS = ['slot-1', 'slot-2', 'slot-3'] as const;
+
+/**
+ * Prefix for save keys in localStorage.
+ */
+const STORAGE_PREFIX = 'echoes-of-the-void:save:';
+
+/**
+ * SaveSlots utility for persisting games to localStorage.
+ * Every read is validated against SaveGameSchema; corrupt or outdated
+ * saves are treated as missing rather than crashing the game.
+ */
+export const SaveSlots = {
+  /**
+   * Reads and validates a save.
+   * 
+   * @param slot - The slot id
+   * @returns The save, or null if the slot is empty or invalid
+   */
+  read: (slot: string): SaveGame | null => {
+    // Only run in browser environment
+    if (typeof window === 'undefined') return null;
+
+    const raw = window.localStorage.getItem(STORAGE_PREFIX + slot);
+    if (!raw) return null;
+
+    try {
+      const result = SaveGameSchema.safeParse(JSON.parse(raw));
+      if (result.success) return result.data;
+      console.warn(`Discarding invalid save in slot ${slot}:`, result.error.issues);
+    } catch (error) {
+      console.warn(`Failed to parse save in slot ${slot}:`, error);
+    }
+    return null;
+  },
+
+  /**
+   * Writes a save to its slot, overwriting any previous save.
+   * 
+   * @param save - The save to persist
+   * @returns True if the save was written
+   */
+  write: (save: SaveGame): boolean => {
+    if (typeof window === 'undefined') return false;
+
+    try {
+      window.localStorage.setItem(STORAGE_PREFIX + save.slot, JSON.stringify(save));
+      return true;
+    } catch (error) {
+      // Quota exceeded or storage disabled
+      console.warn(`Failed to write save to slot ${save.slot}:`, error);
+      return false;
+    }
+  },
+
+  /**
+   * Deletes a save.
+   * 
+   * @param slot - The slot id
+   */
+  remove: (slot: string): void => {
+    if (typeof window === 'undefined') return;
+    window.localStorage.removeItem(STORAGE_PREFIX + slot);
+  },
+
+  /**
+   * Lists all valid saves, most recent first.
+   * 
+   * @returns The saves currently in storage
+   */
+  list: (): SaveGame[] => {
+    if (typeof window === 'undefined') return [];
+
+    const saves: SaveGame[] = [];
+    for (let i = 0; i < window.localStorage.length; i++) {
+      const key = window.localStorage.key(i);
+      if (key?.startsWith(STORAGE_PREFIX)) {
+        const save = SaveSlots.read(key.slice(STORAGE_PREFIX.length));
+        if (save) saves.push(save);
+      }
+    }
+    return saves.sort((a, b) => b.savedAt - a.savedAt);
+  },
+};
+
+export default SaveSlots;
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import type { DeepPartial } from 'ai';
 
 export const VisualCueEnum = z.enum([
   'none',
@@ -17,13 +18,182 @@ export const SoundCueEnum = z.enum([
   'combat'
 ]);
 
+export const DirectionEnum = z.enum([
+  'north',
+  'south',
+  'east',
+  'west'
+]);
+
+export const ExitSchema = z.object({
+  direction: DirectionEnum,
+  to_id: z.string()
+    .describe('Stable snake_case id of the location this exit leads to.'),
+  to_name: z.string()
+    .describe('Short display name of the location this exit leads to.'),
+});
+
+export const WorldUpdateSchema = z.object({
+  location_id: z.string()
+    .describe('Stable snake_case id of the location the player is in AFTER this action. Reuse known ids when returning somewhere.'),
+  location_name: z.string()
+    .describe('Short display name of that location, e.g. "Flooded Crypt".'),
+  exits: z.array(ExitSchema).optional()
+    .describe('Exits from the current location the player can now see or knows about.'),
+});
+
+export const ItemTagEnum = z.enum([
+  'weapon',
+  'light',
+  'key',
+  'consumable',
+  'cursed'
+]);
+
+export const ItemAddSchema = z.object({
+  name: z.string()
+    .describe('Display name of the item, e.g. "Matches".'),
+  quantity: z.number().int().min(1).optional()
+    .describe('How many were found. Defaults to 1.'),
+  description: z.string().optional()
+    .describe('One atmospheric sentence shown when the player examines the item.'),
+  tags: z.array(ItemTagEnum).optional()
+    .describe('What kind of item this is.'),
+  charges: z.number().int().min(0).optional()
+    .describe('Uses or burn time left, for items that run out (torches, lighters, ammo).'),
+  durability: z.number().int().min(0).optional()
+    .describe('Hits left before the item breaks, for weapons and tools.'),
+});
+
+export const ItemRemoveSchema = z.object({
+  name: z.string()
+    .describe('Name of an item the player is carrying.'),
+  quantity: z.number().int().min(1).optional()
+    .describe('How many to remove. Defaults to 1.'),
+});
+
+export const ItemUpdateSchema = z.object({
+  name: z.string()
+    .describe('Name of an item the player is carrying.'),
+  charges_change: z.number().int().optional()
+    .describe('Change to remaining charges, e.g. -1 when a torch burns down.'),
+  durability_change: z.number().int().optional()
+    .describe('Change to remaining durability, e.g. -1 when a blade chips.'),
+});
+
+export const EffectApplySchema = z.object({
+  name: z.string()
+    .describe('Short name of the condition, e.g. "Poisoned", "Bleeding", "Blessed".'),
+  duration: z.number().int().min(1)
+    .describe('How many turns the effect lasts.'),
+  tick: z.record(z.string(), z.number()).optional()
+    .describe('Stat change applied every turn while active, by stat id, e.g. {"health": -3}.'),
+  description: z.string().optional()
+    .describe('One sentence describing how the effect feels.'),
+});
+
 export const GameStateUpdateSchema = z.object({
   health_change: z.number().optional()
     .describe('Amount to add/subtract from player health. Negative for damage.'),
-  inventory_add: z.string().optional()
-    .describe('Single item name to add to player inventory.'),
-  inventory_remove: z.string().optional()
-    .describe('Single item name to remove from player inventory.'),
+  stat_changes: z.record(z.string(), z.number()).optional()
+    .describe('Amounts to add to the theme\'s other stats by id, e.g. {"sanity": -10, "gold": 25}.'),
+  inventory_add: z.array(ItemAddSchema).optional()
+    .describe('Items to add to player inventory.'),
+  inventory_remove: z.array(ItemRemoveSchema).optional()
+    .describe('Items used up, lost or dropped.'),
+  inventory_update: z.array(ItemUpdateSchema).optional()
+    .describe('Wear and tear on carried items.'),
+  effects_add: z.array(EffectApplySchema).optional()
+    .describe('Ongoing conditions that start now. Re-applying an active effect refreshes it.'),
+  effects_remove: z.array(z.string()).optional()
+    .describe('Names of active effects that end now (cured, dispelled, bandaged).'),
+});
+
+export const SkillCheckRequestSchema = z.object({
+  skill: z.string()
+    .describe('What is being tested, e.g. "Agility", "Hacking", "Nerve".'),
+  difficulty: z.number().int()
+    .describe('Number a d20 must meet or beat: 5 easy, 10 moderate, 15 hard, 20 nearly impossible.'),
+  stakes: z.string()
+    .describe('What success and failure would mean, in one sentence.'),
+});
+
+export const EnemyBehaviorEnum = z.enum([
+  'aggressive',
+  'defensive',
+  'cowardly',
+  'erratic'
+]);
+
+export const EncounterStartSchema = z.object({
+  name: z.string()
+    .describe('What the enemy is called, e.g. "Bone Crawler".'),
+  description: z.string()
+    .describe('How it looks and fights, in one sentence.'),
+  hp: z.number().int().min(1)
+    .describe('Enemy hit points: 10 is a rat, 30 a real threat, 60 a boss.'),
+  attack_min: z.number().int().min(0)
+    .describe('Least damage one of its hits deals.'),
+  attack_max: z.number().int().min(0)
+    .describe('Most damage one of its hits deals.'),
+  behavior: EnemyBehaviorEnum
+    .describe('aggressive: attacks every round. defensive: guards every other round. cowardly: flees when badly hurt. erratic: sometimes hesitates.'),
+});
+
+export const DispositionEnum = z.enum([
+  'hostile',
+  'wary',
+  'neutral',
+  'friendly',
+  'loyal'
+]);
+
+export const NpcUpdateSchema = z.object({
+  name: z.string()
+    .describe('The character\'s name, exactly as before if they already exist.'),
+  description: z.string().optional()
+    .describe('Who they are and how they look, in one sentence. Required the first time they appear.'),
+  location_id: z.string().optional()
+    .describe('Location id where they are now. Defaults to the player\'s location.'),
+  disposition: DispositionEnum.optional()
+    .describe('How they feel about the player now.'),
+  alive: z.boolean().optional()
+    .describe('Set false when they die.'),
+  remember: z.array(z.string()).optional()
+    .describe('New things they know, said or promised. One short sentence each.'),
+});
+
+export const QuestStatusEnum = z.enum([
+  'active',
+  'completed',
+  'failed'
+]);
+
+export const QuestUpdateSchema = z.object({
+  id: z.string()
+    .describe('Stable id of the objective, e.g. "find-the-lighthouse-key". Reuse it for every update.'),
+  title: z.string().optional()
+    .describe('Short name of the objective, e.g. "Find the Lighthouse Key". Required when opening it.'),
+  description: z.string().optional()
+    .describe('What the player has to do, in one sentence.'),
+  status: QuestStatusEnum.optional()
+    .describe('active to open or keep it open, completed when achieved, failed when it can no longer be achieved.'),
+  progress: z.string().optional()
+    .describe('What changed for this objective this turn, in one short sentence.'),
+});
+
+export const EndingTypeEnum = z.enum([
+  'victory',
+  'escape',
+  'madness',
+  'death'
+]);
+
+export const EndingSignalSchema = z.object({
+  type: EndingTypeEnum
+    .describe('How the run ends: victory or escape only as the rules of this reality allow; madness or death when the story destroys the player.'),
+  epitaph: z.string()
+    .describe('One sentence to remember the run by, shown on the end screen.'),
 });
 
 export const StructuredResponseSchema = z.object({
@@ -35,10 +205,65 @@ export const StructuredResponseSchema = z.object({
     .describe('Changes to apply to player state based on story events.'),
   sound_cue: SoundCueEnum
     .describe('Audio atmosphere trigger for immersion.'),
+  world_update: WorldUpdateSchema.optional()
+    .describe('Where the player is after this action and which exits they know. Include it every turn.'),
+  skill_check: SkillCheckRequestSchema.optional()
+    .describe('Request a dice roll when the outcome of a risky action is uncertain. Only set up the attempt in the narrative and leave game_state_update empty; the engine rolls and you narrate the result next.'),
+  encounter_start: EncounterStartSchema.optional()
+    .describe('Start a turn-based fight when a hostile creature attacks or the player picks a fight. From then on the engine resolves every exchange and you narrate it.'),
+  npc_updates: z.array(NpcUpdateSchema).optional()
+    .describe('Named characters who appeared or changed this turn: introduce new ones, move them, change how they feel, record what they said.'),
+  quest_updates: z.array(QuestUpdateSchema).optional()
+    .describe('Objectives the player has taken on: open new ones, record progress, complete or fail them. Give the run a goal early on.'),
+  ending: EndingSignalSchema.optional()
+    .describe('End the run now. Only when the story has truly reached an ending; narrate the final moment.'),
+  remember: z.array(z.string()).optional()
+    .describe('New lasting facts to remember for the rest of the run: named characters, locked doors, promises made, puzzle clues. One short sentence each.'),
+});
+
+export const ItemTranslationSchema = z.object({
+  from: z.string()
+    .describe('Exact name of an item the player carries.'),
+  to: z.string()
+    .describe('What the item becomes in the new reality, e.g. "Rusty Key" -> "Keycard".'),
+  description: z.string().optional()
+    .describe('One sentence describing the translated item.'),
+});
+
+export const RealityShiftSchema = z.object({
+  narrative: z.string()
+    .describe('The moment reality shifts around the player. 2-3 sentences in the new tone.'),
+  visual_cue: VisualCueEnum
+    .describe('Key to trigger ASCII art display. Use sparingly for impactful moments.'),
+  sound_cue: SoundCueEnum
+    .describe('Audio atmosphere trigger for immersion.'),
+  location_name: z.string()
+    .describe('The current location, renamed for the new reality.'),
+  item_translations: z.array(ItemTranslationSchema)
+    .describe('One entry per carried item, translating it into the new reality.'),
 });
 
 // Export TypeScript types from schema
 export type StructuredResponse = z.infer<typeof StructuredResponseSchema>;
+export type PartialStructuredResponse = DeepPartial<StructuredResponse>;
 export type VisualCue = z.infer<typeof VisualCueEnum>;
 export type SoundCue = z.infer<typeof SoundCueEnum>;
 export type GameStateUpdate = z.infer<typeof GameStateUpdateSchema>;
+export type ItemTag = z.infer<typeof ItemTagEnum>;
+export type ItemAdd = z.infer<typeof ItemAddSchema>;
+export type ItemRemove = z.infer<typeof ItemRemoveSchema>;
+export type ItemUpdate = z.infer<typeof ItemUpdateSchema>;
+export type Direction = z.infer<typeof DirectionEnum>;
+export type WorldUpdate = z.infer<typeof WorldUpdateSchema>;
+export type SkillCheckRequest = z.infer<typeof SkillCheckRequestSchema>;
+export type EnemyBehavior = z.infer<typeof EnemyBehaviorEnum>;
+export type EncounterStart = z.infer<typeof EncounterStartSchema>;
+export type Disposition = z.infer<typeof DispositionEnum>;
+export type NpcUpdate = z.infer<typeof NpcUpdateSchema>;
+export type QuestStatus = z.infer<typeof QuestStatusEnum>;
+export type QuestUpdate = z.infer<typeof QuestUpdateSchema>;
+export type EndingType = z.infer<typeof EndingTypeEnum>;
+export type EndingSignal = z.infer<typeof EndingSignalSchema>;
+export type EffectApply = z.infer<typeof EffectApplySchema>;
+export type ItemTranslation = z.infer<typeof ItemTranslationSchema>;
+export type RealityShift = z.infer<typeof RealityShiftSchema>;
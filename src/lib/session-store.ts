@@ -0,0 +1,409 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import type { RealityShift, StructuredResponse } from './schema';
+import type { NarrativeProvider, NarrativeRequest } from './providers';
+import { GameSessionSchema, type GameSession, type SessionState } from './save-schema';
+import type { AssembledContext } from './context';
+import {
+  applyRules,
+  prepareNarrativeRequest,
+  SessionError,
+  type GenerateNarrativeInput,
+  type SessionUpdate,
+} from './narrative';
+import { applyTurn, toNarrativeInput, type TurnResolution } from './engine';
+import { compressMemory } from './memory';
+import { getProvider, resolveProviderKey } from './providers';
+import { forgetContext, recordContext } from './context-inspector';
+import { loadThemePacks } from './theme-loader';
+import { applyRealityShift, buildShiftRequest, literalShift } from './reality-shift';
+import { getTheme, hasTheme, type ThemeKey } from './themes';
+import { createRng, hashSeed, type Rng } from './random';
+import { buildOutcomeRequest, resolveSkillCheck, type ResolvedCheck } from './skill-check';
+import { buildRoundRequest, resolveRound, type CombatRound } from './combat';
+import { parseCommand } from './parser';
+import { buildDialogueRequest, findNpc } from './npcs';
+import { signState } from './save-signature';
+
+// Every server entry point that plays turns goes through this module
+loadThemePacks();
+
+/**
+ * Identifies a session store backend.
+ */
+export type SessionStoreKey = 'memory' | 'file';
+
+/**
+ * Server-side storage for game sessions, keyed by session id.
+ */
+export interface SessionStore {
+  key: SessionStoreKey;
+  get(id: string): Promise<GameSession | undefined>;
+  save(session: GameSession): Promise<void>;
+}
+
+/**
+ * Session ids are UUIDs; anything else is rejected before touching storage.
+ */
+const SESSION_ID_PATTERN = /^[0-9a-f-]{36}$/i;
+
+/**
+ * Keeps sessions in process memory. Sessions are lost on restart.
+ */
+export function createMemorySessionStore(): SessionStore {
+  const sessions = new Map<string, GameSession>();
+
+  return {
+    key: 'memory',
+    async get(id) {
+      const session = sessions.get(id);
+      return session ? structuredClone(session) : undefined;
+    },
+    async save(session) {
+      sessions.set(session.id, structuredClone(session));
+    },
+  };
+}
+
+/**
+ * Keeps each session as a JSON file, so sessions survive restarts.
+ * Files that fail validation are treated as missing.
+ *
+ * @param directory - Where session files are written
+ */
+export function createFileSessionStore(
+  directory = process.env.SESSION_DIR || path.join(process.cwd(), '.sessions')
+): SessionStore {
+  const fileFor = (id: string) => path.join(directory, `${id}.json`);
+
+  return {
+    key: 'file',
+    async get(id) {
+      if (!SESSION_ID_PATTERN.test(id)) return undefined;
+      try {
+        const result = GameSessionSchema.safeParse(JSON.parse(await fs.readFile(fileFor(id), 'utf8')));
+        return result.success ? result.data : undefined;
+      } catch {
+        return undefined;
+      }
+    },
+    async save(session) {
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(fileFor(session.id), JSON.stringify(session), 'utf8');
+    },
+  };
+}
+
+let sessionStore: SessionStore | undefined;
+
+/**
+ * Gets the configured session store (SESSION_STORE=memory|file, default memory).
+ */
+export function getSessionStore(): SessionStore {
+  if (!sessionStore) {
+    sessionStore = process.env.SESSION_STORE === 'file'
+      ? createFileSessionStore()
+      : createMemorySessionStore();
+  }
+  return sessionStore;
+}
+
+/**
+ * Creates and stores a new session.
+ *
+ * @param state - The session's starting state
+ * @param origin - 'new' for fresh runs, 'restored' for runs rebuilt from a client save
+ * @returns The stored session
+ */
+export async function createSession(state: SessionState, origin: GameSession['origin'] = 'new'): Promise<GameSession> {
+  const now = Date.now();
+  const session: GameSession = { id: randomUUID(), origin, createdAt: now, updatedAt: now, state };
+  await getSessionStore().save(session);
+  return session;
+}
+
+/**
+ * Builds the update the client mirrors: the session's state, signed so a
+ * save made from it can be restored, and the notices for what changed.
+ *
+ * @param session - The session as stored
+ * @param notices - System notices describing what changed
+ * @returns The update for the client
+ */
+export function toSessionUpdate(session: GameSession, notices: string[] = []): SessionUpdate {
+  return { sessionId: session.id, state: session.state, signature: signState(session.state), notices };
+}
+
+/**
+ * Loads a session that can still take commands.
+ *
+ * @param id - The session id sent by the client
+ * @returns The session
+ * @throws SessionError if the session is unknown or its run has ended
+ */
+export async function loadPlayableSession(id: string): Promise<GameSession> {
+  const session = await getSessionStore().get(id);
+  if (!session) {
+    throw new SessionError('This reality has collapsed. Reboot the universe.');
+  }
+  if (session.state.isGameOver) {
+    throw new SessionError('The dead do not act.');
+  }
+  return session;
+}
+
+/**
+ * Derives the seed for one use in a session's current turn from the run
+ * seed, the turn and the purpose, so replaying a seed rolls the same
+ * numbers turn by turn.
+ */
+function turnSeed(session: GameSession, purpose: string): string {
+  return `${session.state.seed}:${session.state.history.length / 2}:${purpose}`;
+}
+
+/**
+ * Creates the random source for one use in a session's current turn.
+ */
+function turnRng(session: GameSession, purpose: string): Rng {
+  return createRng(turnSeed(session, purpose));
+}
+
+/**
+ * Builds the provider request for a session's next turn, seeded from the
+ * run seed, along with the context it was assembled from.
+ *
+ * @param session - The session the turn belongs to
+ * @param prompt - The player's command (or the theme's opening line)
+ * @returns The turn input, the request and its assembled context
+ */
+function prepareTurn(
+  session: GameSession,
+  prompt: string
+): { input: GenerateNarrativeInput; request: NarrativeRequest; context: AssembledContext } {
+  const input = toNarrativeInput(session.state, prompt);
+  const prepared = prepareNarrativeRequest(input);
+  const request = { ...prepared.request, seed: hashSeed(turnSeed(session, 'narrative')) };
+  return { input, request, context: prepared.context };
+}
+
+/**
+ * Fights a round if the session is in a fight, and builds the request for
+ * narrating it. Every command during a fight takes a round; only combat
+ * verbs (attack, defend, flee, use) fight back.
+ *
+ * @param session - The session the turn belongs to
+ * @param request - The turn's original request
+ * @param command - The player's command
+ * @returns The resolved round and the narration request, or undefined outside a fight
+ */
+function fightRound(
+  session: GameSession,
+  request: NarrativeRequest,
+  command: string
+): { round: CombatRound; request: NarrativeRequest } | undefined {
+  const { encounter, inventory } = session.state;
+  if (!encounter) return undefined;
+  const parsed = parseCommand(command, inventory.map((item) => item.name));
+  const round = resolveRound(encounter, parsed, inventory, turnRng(session, 'combat'));
+  return { round, request: buildRoundRequest(request, round) };
+}
+
+/**
+ * Recognizes a conversation with a known, living character and builds the
+ * dialogue request, which carries everything they remember.
+ *
+ * @param session - The session the turn belongs to
+ * @param request - The turn's original request
+ * @param command - The player's command
+ * @returns The character's id and the dialogue request, or undefined for other commands
+ */
+function talkTo(
+  session: GameSession,
+  request: NarrativeRequest,
+  command: string
+): { npcId: string; request: NarrativeRequest } | undefined {
+  const { npcs, world } = session.state;
+  const parsed = parseCommand(command);
+  const npc = parsed.verb === 'talk' && parsed.object ? findNpc(npcs, parsed.object) : undefined;
+  if (!npc?.alive) return undefined;
+  return { npcId: npc.id, request: buildDialogueRequest(request, npc, world) };
+}
+
+/**
+ * Rolls the skill check the Dungeon Master asked for, if any, and builds
+ * the request for narrating its outcome. Rolls are seeded by the run seed
+ * and turn, so the same turn always rolls the same number.
+ *
+ * @param session - The session the turn belongs to
+ * @param request - The turn's original request
+ * @param response - The provider's first response for the turn
+ * @returns The resolved check and the outcome request, or undefined if no check was asked for
+ */
+function rollSkillCheck(
+  session: GameSession,
+  request: NarrativeRequest,
+  response: StructuredResponse
+): { check: ResolvedCheck; request: NarrativeRequest } | undefined {
+  if (!response.skill_check) return undefined;
+  const result = resolveSkillCheck(response.skill_check, turnRng(session, 'check'));
+  const check = { setup: response.narrative, result };
+  return { check, request: buildOutcomeRequest(request, check) };
+}
+
+/**
+ * Checks a provider response against the rules, applies it to the session,
+ * folds turns that left the recent window into long-term memory (using the
+ * theme's provider to summarize, when it can) and stores the result.
+ *
+ * @param session - The session the turn belongs to
+ * @param command - The command (or start marker) recorded in history
+ * @param data - The provider's validated response
+ * @param options - The text sent to the provider, if different from the
+ *   command, how many requests the turn sent, and the skill check or
+ *   combat round `data` narrates
+ * @returns The rule-checked response and the authoritative state for the client
+ */
+async function commitTurn(
+  session: GameSession,
+  command: string,
+  data: StructuredResponse,
+  { prompt = command, calls = 0, ...resolution }: TurnResolution & { prompt?: string; calls?: number } = {}
+): Promise<{ data: StructuredResponse; session: SessionUpdate }> {
+  const rules = applyRules(data, toNarrativeInput(session.state, prompt));
+  const { state: played, notices } = applyTurn(session.state, rules, command, resolution);
+  // A new fight always shows its monster
+  const response = !session.state.encounter && played.encounter
+    ? {
+        ...rules,
+        visual_cue: 'monster' as const,
+        sound_cue: rules.sound_cue === 'none' ? 'combat' as const : rules.sound_cue,
+      }
+    : rules;
+  const summarizer = getProvider(resolveProviderKey(played.currentTheme)).summarize;
+  const state = {
+    ...played,
+    memory: await compressMemory(played.memory, played.history, summarizer),
+    providerCalls: played.providerCalls + calls,
+  };
+
+  const playedSession = { ...session, state, updatedAt: Date.now() };
+  await getSessionStore().save(playedSession);
+  if (state.isGameOver) {
+    forgetContext(session.id);
+  }
+  return { data: response, session: toSessionUpdate(playedSession, notices) };
+}
+
+/**
+ * Asks a provider for one response of a turn: all at once for the
+ * prologue, or streamed to the client for the turns that follow.
+ */
+export type TurnGenerator = (provider: NarrativeProvider, request: NarrativeRequest) => Promise<StructuredResponse>;
+
+/**
+ * Plays one Dungeon Master turn against a stored session. In a fight the
+ * engine resolves the round and the Dungeon Master narrates it; talking to
+ * a known character brings in their memory; a requested skill check is
+ * rolled here and its outcome narrated in a second call. The response is
+ * checked by the rules engine and applied to the session.
+ *
+ * @param session - The session the turn belongs to
+ * @param command - The command (or start marker) recorded in history
+ * @param options - How to call the provider, the text sent to it if
+ *   different from the command, and a callback for a rolled skill check,
+ *   which fires before its outcome is generated
+ * @returns The rule-checked response, the skill check rolled if any, and
+ *   the authoritative state for the client
+ */
+export async function playTurn(
+  session: GameSession,
+  command: string,
+  { prompt = command, generate, onRoll }: {
+    prompt?: string;
+    generate: TurnGenerator;
+    onRoll?: (check: ResolvedCheck) => void;
+  }
+): Promise<{ data: StructuredResponse; check?: ResolvedCheck; session: SessionUpdate }> {
+  const { input, request, context } = prepareTurn(session, prompt);
+  const provider = getProvider(resolveProviderKey(input.theme));
+  // Every request is numbered for the scripted provider and recorded for
+  // the context inspector as it is sent
+  let calls = 0;
+  const send = (request: NarrativeRequest) => {
+    const sent = { ...request, position: session.state.providerCalls + calls++ };
+    recordContext({
+      sessionId: session.id,
+      turn: session.state.history.length / 2,
+      createdAt: Date.now(),
+      request: sent,
+      context,
+    });
+    return generate(provider, sent);
+  };
+
+  const fight = fightRound(session, request, command);
+  const dialogue = fight ? undefined : talkTo(session, request, command);
+  const first = await send(fight?.request ?? dialogue?.request ?? request);
+
+  const pending = fight ? undefined : rollSkillCheck(session, request, first);
+  let data = first;
+  if (pending) {
+    onRoll?.(pending.check);
+    data = await send(pending.request);
+  }
+
+  return {
+    check: pending?.check,
+    ...(await commitTurn(session, command, data, {
+      prompt,
+      calls,
+      check: pending?.check,
+      round: fight?.round,
+      talkedTo: dialogue?.npcId,
+    })),
+  };
+}
+
+/**
+ * Shifts a session into another theme, keeping its progress. The new
+ * theme's provider translates the scene and inventory; if it can't, the
+ * run moves over with everything keeping its old name.
+ *
+ * @param session - The session to shift
+ * @param theme - The theme to shift into
+ * @returns The shift as applied and the authoritative state for the client
+ * @throws SessionError if the theme isn't installed or the session is already in it
+ */
+export async function shiftSession(
+  session: GameSession,
+  theme: ThemeKey
+): Promise<{ data: RealityShift; session: SessionUpdate }> {
+  if (!hasTheme(theme)) {
+    throw new SessionError('No such reality exists.');
+  }
+  const target = getTheme(theme).id;
+  if (target === session.state.currentTheme) {
+    throw new SessionError('You are already in this reality.');
+  }
+
+  const provider = getProvider(resolveProviderKey(target));
+  let data = literalShift(session.state);
+  if (provider.shift) {
+    try {
+      data = await provider.shift({
+        ...buildShiftRequest(session.state, target),
+        seed: hashSeed(turnSeed(session, 'shift')),
+      });
+    } catch (error) {
+      console.error('Reality shift translation failed, shifting literally:', error);
+    }
+  }
+
+  const { state: shifted, notices } = applyRealityShift(session.state, data, target);
+  const state = { ...shifted, memory: await compressMemory(shifted.memory, shifted.history, provider.summarize) };
+
+  const shiftedSession = { ...session, state, updatedAt: Date.now() };
+  await getSessionStore().save(shiftedSession);
+  return { data, session: toSessionUpdate(shiftedSession, notices) };
+}
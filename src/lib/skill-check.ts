@@ -0,0 +1,89 @@
+import type { SkillCheckRequest } from './schema';
+import type { NarrativeRequest } from './providers';
+import { CHECK_OUTCOME_PROMPT } from './prompts';
+import { rollDie, type Rng } from './random';
+
+/**
+ * Lowest and highest difficulty a check can have; requests outside are clamped.
+ */
+const MIN_DIFFICULTY = 2;
+const MAX_DIFFICULTY = 20;
+
+/**
+ * The outcome of a d20 skill check.
+ */
+export interface SkillCheckResult {
+  skill: string;
+  difficulty: number;
+  stakes: string;
+  roll: number;
+  success: boolean;
+  /** A natural 20 or natural 1, which succeeds or fails regardless of difficulty */
+  critical: boolean;
+}
+
+/**
+ * A skill check resolved during a turn: the narrative that set it up
+ * and how the roll went.
+ */
+export interface ResolvedCheck {
+  setup: string;
+  result: SkillCheckResult;
+}
+
+/**
+ * Rolls a d20 against the requested difficulty. Meeting the difficulty
+ * succeeds; a natural 20 always succeeds and a natural 1 always fails.
+ *
+ * @param check - The check the Dungeon Master asked for
+ * @param rng - The random source (seeded, so rolls can be reproduced)
+ * @returns The roll and whether it succeeded
+ */
+export function resolveSkillCheck(check: SkillCheckRequest, rng: Rng): SkillCheckResult {
+  const difficulty = Math.max(MIN_DIFFICULTY, Math.min(MAX_DIFFICULTY, Math.round(check.difficulty)));
+  const roll = rollDie(rng, 20);
+  const critical = roll === 20 || roll === 1;
+  return {
+    skill: check.skill,
+    difficulty,
+    stakes: check.stakes,
+    roll,
+    success: critical ? roll === 20 : roll >= difficulty,
+    critical,
+  };
+}
+
+/**
+ * Formats a roll for the log, e.g. "► ROLL: 14 vs 12 — SUCCESS".
+ *
+ * @param result - The resolved check
+ * @returns The system entry text
+ */
+export function formatRoll(result: SkillCheckResult): string {
+  const outcome = `${result.critical ? 'CRITICAL ' : ''}${result.success ? 'SUCCESS' : 'FAILURE'}`;
+  return `► ROLL: ${result.roll} vs ${result.difficulty} — ${outcome}`;
+}
+
+/**
+ * Builds the follow-up request that asks the Dungeon Master to narrate
+ * a resolved check. Repeats the turn's request so the context is the same,
+ * then adds the setup it wrote and the dice result.
+ *
+ * @param request - The turn's original request
+ * @param check - The setup narrative and the roll
+ * @returns The request for the outcome
+ */
+export function buildOutcomeRequest(request: NarrativeRequest, check: ResolvedCheck): NarrativeRequest {
+  const { result } = check;
+  return {
+    ...request,
+    system: `${request.system}\n\n${CHECK_OUTCOME_PROMPT}`,
+    prompt: `${request.prompt}
+
+You set up the attempt: ${check.setup}
+
+SKILL CHECK: ${result.skill} (difficulty ${result.difficulty})
+STAKES: ${result.stakes}
+RESULT: rolled ${result.roll} — ${result.critical ? 'CRITICAL ' : ''}${result.success ? 'SUCCESS' : 'FAILURE'}`,
+  };
+}
@@ -0,0 +1,73 @@
+import { z } from 'zod';
+import { LifetimeStatsSchema, type LifetimeStats, type RunEnding, type RunStats } from './save-schema';
+import { addRun, emptyLifetimeStats } from './run-stats';
+import type { ThemeKey } from './themes';
+
+/**
+ * localStorage key holding lifetime statistics for every theme.
+ */
+const STORAGE_KEY = 'echoes-of-the-void:stats';
+
+const StatsHistorySchema = z.record(z.string(), LifetimeStatsSchema);
+
+/**
+ * StatsHistory utility for persisting lifetime statistics to localStorage,
+ * one entry per theme. Corrupt data is treated as no history rather than
+ * crashing the game.
+ */
+export const StatsHistory = {
+  /**
+   * Reads the lifetime statistics of every theme played.
+   *
+   * @returns Totals by theme id
+   */
+  readAll: (): Record<ThemeKey, LifetimeStats> => {
+    // Only run in browser environment
+    if (typeof window === 'undefined') return {};
+
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return {};
+
+    try {
+      const result = StatsHistorySchema.safeParse(JSON.parse(raw));
+      if (result.success) return result.data;
+      console.warn('Discarding invalid stats history:', result.error.issues);
+    } catch (error) {
+      console.warn('Failed to parse stats history:', error);
+    }
+    return {};
+  },
+
+  /**
+   * Reads one theme's lifetime statistics.
+   *
+   * @param theme - The theme id
+   * @returns Its totals, empty if it was never finished
+   */
+  read: (theme: ThemeKey): LifetimeStats => StatsHistory.readAll()[theme] ?? emptyLifetimeStats(),
+
+  /**
+   * Adds a finished run to its theme's totals.
+   *
+   * @param theme - The theme the run was played in
+   * @param run - The run's statistics
+   * @param ending - How it ended
+   * @returns True if the history was written
+   */
+  record: (theme: ThemeKey, run: RunStats, ending: RunEnding): boolean => {
+    if (typeof window === 'undefined') return false;
+
+    const history = StatsHistory.readAll();
+    history[theme] = addRun(history[theme] ?? emptyLifetimeStats(), run, ending);
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+      return true;
+    } catch (error) {
+      // Quota exceeded or storage disabled
+      console.warn('Failed to write stats history:', error);
+      return false;
+    }
+  },
+};
+
+export default StatsHistory;
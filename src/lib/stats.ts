@@ -0,0 +1,129 @@
+import type { StatDefinition, ThemePack } from './themes';
+
+/**
+ * Current stat values by stat id.
+ */
+export type Stats = Record<string, number>;
+
+/**
+ * Gets the theme's primary stat: the first declared, which health_change
+ * affects and the legacy `health` field mirrors.
+ *
+ * @param pack - The theme pack
+ * @returns The primary stat's definition
+ */
+export function primaryStat(pack: ThemePack): StatDefinition {
+  return pack.stats[0];
+}
+
+/**
+ * Clamps a value into a stat's range.
+ */
+function clampStat(stat: StatDefinition, value: number): number {
+  return Math.max(stat.min, Math.min(stat.max, Math.round(value)));
+}
+
+/**
+ * Gets the stats a new run starts with.
+ *
+ * @param pack - The theme pack
+ * @returns Each declared stat at its initial value
+ */
+export function initialStats(pack: ThemePack): Stats {
+  return Object.fromEntries(pack.stats.map((stat) => [stat.id, stat.initial ?? stat.max]));
+}
+
+/**
+ * Fits stats to a theme pack: missing stats start at their initial value,
+ * stats the pack doesn't declare are dropped and values are clamped.
+ * Used for saves made before stats existed and after reality shifts.
+ *
+ * @param pack - The theme pack
+ * @param stats - Stat values, possibly from another pack
+ * @param health - Value for the primary stat, if known (e.g. from an old save)
+ * @returns Stats matching the pack's declarations
+ */
+export function normalizeStats(pack: ThemePack, stats: Stats = {}, health?: number): Stats {
+  const primary = primaryStat(pack);
+  return Object.fromEntries(pack.stats.map((stat) => {
+    const value = stat.id === primary.id && health !== undefined
+      ? health
+      : stats[stat.id] ?? stat.initial ?? stat.max;
+    return [stat.id, clampStat(stat, value)];
+  }));
+}
+
+/**
+ * Applies stat changes, clamping each stat into its range.
+ * Changes to undeclared stats are ignored.
+ *
+ * @param pack - The theme pack
+ * @param stats - Stat values before the changes
+ * @param changes - Amount to add to each stat
+ * @returns The new stat values (the input is not mutated)
+ */
+export function applyStatChanges(pack: ThemePack, stats: Stats, changes: Partial<Stats> = {}): Stats {
+  const current = normalizeStats(pack, stats);
+  return Object.fromEntries(pack.stats.map((stat) => [
+    stat.id,
+    clampStat(stat, current[stat.id] + (changes[stat.id] ?? 0)),
+  ]));
+}
+
+/**
+ * Moves a value from one stat's range into another's, keeping its share
+ * of the range: 80/100 health becomes 40/50 oxygen. Between a stat that
+ * kills at its min and one that kills at its max, the share is flipped,
+ * so the player is as close to death as before.
+ *
+ * @param from - The stat the value belongs to
+ * @param to - The stat to move it into
+ * @param value - The value in `from`'s range
+ * @returns The value in `to`'s range
+ */
+export function rescaleStat(from: StatDefinition, to: StatDefinition, value: number): number {
+  const fraction = (value - from.min) / (from.max - from.min);
+  const flipped = (from.death === 'max') !== (to.death === 'max');
+  return clampStat(to, to.min + (flipped ? 1 - fraction : fraction) * (to.max - to.min));
+}
+
+/**
+ * Finds the stat that killed the player, if any.
+ *
+ * @param pack - The theme pack
+ * @param stats - Current stat values
+ * @returns The first stat at its death boundary, or undefined while alive
+ */
+export function fatalStat(pack: ThemePack, stats: Stats): StatDefinition | undefined {
+  return pack.stats.find((stat) => {
+    const value = stats[stat.id];
+    if (value === undefined) return false;
+    return (stat.death === 'min' && value <= stat.min) || (stat.death === 'max' && value >= stat.max);
+  });
+}
+
+/**
+ * How close a stat is to killing the player, from 0 (safe) to 1 (dead).
+ * Stats that can't kill are never in danger.
+ *
+ * @param stat - The stat's definition
+ * @param value - Its current value
+ * @returns The danger level
+ */
+export function statDanger(stat: StatDefinition, value: number): number {
+  const fraction = (value - stat.min) / (stat.max - stat.min);
+  if (stat.death === 'min') return 1 - fraction;
+  if (stat.death === 'max') return fraction;
+  return 0;
+}
+
+/**
+ * Formats a stat value against its range, e.g. "80/100".
+ *
+ * @param stat - The stat's definition
+ * @param value - Its current value
+ * @returns The formatted value
+ */
+export function formatStat(stat: StatDefinition, value: number): string {
+  return stat.min === 0 ? `${value}/${stat.max}` : `${value} (${stat.min} to ${stat.max})`;
+}
@@ -0,0 +1,70 @@
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { z } from 'zod';
+import { ThemePackSchema, registerThemePacks, type ThemePack } from './themes';
+
+/**
+ * Directory theme packs are discovered in. Override with THEMES_DIR.
+ */
+export const THEMES_DIR = process.env.THEMES_DIR || path.join(process.cwd(), 'themes');
+
+const PACK_EXTENSIONS = new Set(['.json', '.yaml', '.yml']);
+
+let loadedPacks: ThemePack[] | undefined;
+
+/**
+ * Reads and validates one pack file.
+ *
+ * @returns The pack, or undefined (with the reason logged) if it is invalid
+ */
+function readPack(file: string): ThemePack | undefined {
+  try {
+    const raw = fs.readFileSync(file, 'utf8');
+    const data = path.extname(file).toLowerCase() === '.json' ? JSON.parse(raw) : yaml.load(raw);
+    const result = ThemePackSchema.safeParse(data);
+    if (!result.success) {
+      console.error(`Skipping invalid theme pack ${path.basename(file)}:\n${z.prettifyError(result.error)}`);
+      return undefined;
+    }
+    return result.data;
+  } catch (error) {
+    console.error(`Skipping unreadable theme pack ${path.basename(file)}: ${error instanceof Error ? error.message : error}`);
+    return undefined;
+  }
+}
+
+/**
+ * Discovers the theme packs in the themes directory, validates them and
+ * installs them in the theme registry. Runs once per server process;
+ * later calls return the same packs.
+ *
+ * @param directory - Where to look for .json/.yaml/.yml packs
+ * @returns The installed packs
+ * @throws Error if no valid pack is found
+ */
+export function loadThemePacks(directory = THEMES_DIR): ThemePack[] {
+  if (loadedPacks) return loadedPacks;
+
+  const packs: ThemePack[] = [];
+  const files = fs.existsSync(directory) ? fs.readdirSync(directory).sort() : [];
+
+  for (const file of files) {
+    if (!PACK_EXTENSIONS.has(path.extname(file).toLowerCase())) continue;
+    const pack = readPack(path.join(directory, file));
+    if (!pack) continue;
+    if (packs.some((existing) => existing.id === pack.id)) {
+      console.error(`Skipping theme pack ${file}: id "${pack.id}" is already taken`);
+      continue;
+    }
+    packs.push(pack);
+  }
+
+  if (packs.length === 0) {
+    throw new Error(`No valid theme packs found in ${directory}`);
+  }
+
+  registerThemePacks(packs);
+  loadedPacks = packs;
+  return packs;
+}
@@ -0,0 +1,227 @@
+import { z } from 'zod';
+import { VisualCueEnum, SoundCueEnum, EndingTypeEnum } from './schema';
+
+/**
+ * Id of a theme pack (e.g. 'horror'). Any pack found in the themes
+ * directory is a valid theme; there is no fixed list.
+ */
+export type ThemeKey = string;
+
+/**
+ * Theme used when none is chosen, or the chosen one isn't installed.
+ */
+export const DEFAULT_THEME: ThemeKey = 'horror';
+
+/**
+ * Boot sequence shown for packs that don't define their own.
+ */
+const DEFAULT_BOOT_MESSAGES = [
+  'VOID SYSTEMS BIOS v6.66',
+  'COPYRIGHT (C) 2025 KIRO INDUSTRIES',
+  '',
+  'INITIALIZING MEMORY.............. OK',
+  'LOADING VOID KERNEL.............. OK',
+  '',
+  'ALL SYSTEMS NOMINAL',
+  'ENTERING THE VOID...',
+];
+
+/**
+ * Bounds the Dungeon Master's state changes must stay within.
+ */
+export const RuleBoundsSchema = z.object({
+  /** Most health a single turn can take away */
+  maxDamagePerTurn: z.number().int().min(0).default(40),
+  /** Most health a single turn can restore */
+  maxHealPerTurn: z.number().int().min(0).default(25),
+  /** Most items (counting quantity) a single turn can hand out */
+  maxItemsPerTurn: z.number().int().min(0).default(3),
+  /** Most distinct items the player can carry */
+  maxInventorySize: z.number().int().min(1).default(10),
+  /** Most turns a status effect can last */
+  maxEffectDuration: z.number().int().min(1).default(10),
+  /** Most hit points an enemy can start a fight with */
+  maxEnemyHp: z.number().int().min(1).default(60),
+});
+
+/**
+ * A stat the player has in a theme (health, sanity, oxygen, mana, gold...).
+ */
+export const StatDefinitionSchema = z.strictObject({
+  /** Key used in stat_changes and saves */
+  id: z.string().regex(/^[a-z0-9_]+$/, 'Use lowercase letters, digits and underscores'),
+  /** Shown in the status bar, e.g. SANITY */
+  label: z.string().min(1),
+  min: z.number().int().default(0),
+  max: z.number().int().default(100),
+  /** Starting value; defaults to max */
+  initial: z.number().int().optional(),
+  /** The player dies when this stat reaches its min or max, or never */
+  death: z.enum(['min', 'max', 'never']).default('min'),
+  /** How the run ends when this stat kills the player */
+  ending: z.enum(['death', 'madness']).default('death'),
+  /** bar: a gauge, value: a number, pips: one block per point */
+  display: z.enum(['bar', 'value', 'pips']).default('bar'),
+}).refine((stat) => stat.min < stat.max, 'min must be below max')
+  .refine(
+    (stat) => stat.initial === undefined || (stat.initial >= stat.min && stat.initial <= stat.max),
+    'initial must be between min and max'
+  );
+
+/**
+ * Stats for packs that don't declare their own.
+ */
+const DEFAULT_STATS = [
+  { id: 'health', label: 'HEALTH', min: 0, max: 100, death: 'min', ending: 'death', display: 'bar' },
+] as const;
+
+/**
+ * One way a run can end in a theme.
+ */
+export const EndingDefinitionSchema = z.strictObject({
+  /** Headline of the end screen */
+  title: z.string().min(1),
+  /** When the Dungeon Master may grant this ending; victory and escape need one */
+  condition: z.string().min(1).optional(),
+});
+
+/**
+ * Store events an achievement can be checked on.
+ */
+export const AchievementEventEnum = z.enum(['turn', 'damage', 'inventory', 'theme', 'ending']);
+
+/**
+ * Measurements an achievement can require a minimum or maximum of.
+ * turns: turns survived this run; damage: damage taken by the turn just
+ * played; damageTaken: damage taken this run; health: the primary stat;
+ * itemsHeld: items carried, counting quantity; themesPlayed: protocols
+ * ever played.
+ */
+export const AchievementMetricEnum = z.enum(['turns', 'damage', 'damageTaken', 'health', 'itemsHeld', 'themesPlayed']);
+
+/**
+ * An achievement, declared as the event to check it on and the
+ * conditions that unlock it.
+ */
+export const AchievementDefinitionSchema = z.strictObject({
+  id: z.string().regex(/^[a-z0-9-]+$/, 'Use lowercase letters, digits and dashes'),
+  title: z.string().min(1),
+  description: z.string().min(1),
+  on: AchievementEventEnum,
+  /** Only unlocks in this theme; a pack's own achievements default to the pack */
+  theme: z.string().optional(),
+  /** Only unlocks when the run ends this way */
+  ending: EndingTypeEnum.optional(),
+  /** Lowest value of each metric that unlocks it */
+  min: z.partialRecord(AchievementMetricEnum, z.number()).default(() => ({})),
+  /** Highest value of each metric that unlocks it */
+  max: z.partialRecord(AchievementMetricEnum, z.number()).default(() => ({})),
+});
+
+/**
+ * A theme pack, as written in a JSON or YAML file in the themes directory.
+ */
+export const ThemePackSchema = z.strictObject({
+  /** Unique id, also used in saves and NARRATIVE_PROVIDER_<ID> overrides */
+  id: z.string().regex(/^[a-z0-9-]+$/, 'Use lowercase letters, digits and dashes'),
+  /** Position in the BIOS protocol list */
+  order: z.number().default(100),
+  displayName: z.string().min(1),
+  systemPrompt: z.string().min(1),
+  /** Instruction that generates the prologue */
+  openingLine: z.string().min(1),
+  /** Shown by the local help command */
+  helpText: z.string().min(1),
+  rules: RuleBoundsSchema.default(() => RuleBoundsSchema.parse({})),
+  /** The player's stats; the first is the one health_change affects */
+  stats: z.array(StatDefinitionSchema).min(1)
+    .refine((stats) => new Set(stats.map((stat) => stat.id)).size === stats.length, 'Stat ids must be unique')
+    .default(() => DEFAULT_STATS.map((stat) => ({ ...stat }))),
+  /** Visual cues the Dungeon Master may use; others are dropped */
+  visualCues: z.array(VisualCueEnum).default(() => [...VisualCueEnum.options]),
+  /** Sound cues the Dungeon Master may use; others are dropped */
+  soundCues: z.array(SoundCueEnum).default(() => [...SoundCueEnum.options]),
+  /**
+   * The theme's endings. Victory and escape are only possible when the
+   * pack defines them; madness and death always are.
+   */
+  endings: z.partialRecord(EndingTypeEnum, EndingDefinitionSchema).default(() => ({})),
+  /** Achievements only this theme offers */
+  achievements: z.array(AchievementDefinitionSchema).default(() => []),
+  /** Replacement ASCII art per visual cue */
+  asciiArt: z.partialRecord(VisualCueEnum, z.string()).default(() => ({})),
+  bootMessages: z.array(z.string()).default(() => [...DEFAULT_BOOT_MESSAGES]),
+  /** Phosphor color of the terminal text, as #rrggbb */
+  crtColor: z.string().regex(/^#[0-9a-f]{6}$/i, 'Use a #rrggbb color').default('#33ff33'),
+});
+
+export type RuleBounds = z.infer<typeof RuleBoundsSchema>;
+export type StatDefinition = z.infer<typeof StatDefinitionSchema>;
+export type EndingDefinition = z.infer<typeof EndingDefinitionSchema>;
+export type AchievementEvent = z.infer<typeof AchievementEventEnum>;
+export type AchievementMetric = z.infer<typeof AchievementMetricEnum>;
+export type AchievementDefinition = z.infer<typeof AchievementDefinitionSchema>;
+export type ThemePack = z.infer<typeof ThemePackSchema>;
+
+/**
+ * Installed theme packs by id. Filled from the themes directory on the
+ * server and handed to the client by the root layout.
+ */
+const registry = new Map<ThemeKey, ThemePack>();
+
+/**
+ * Replaces the installed theme packs.
+ *
+ * @param packs - Validated packs
+ */
+export function registerThemePacks(packs: ThemePack[]): void {
+  registry.clear();
+  for (const pack of packs) {
+    registry.set(pack.id, pack);
+  }
+}
+
+/**
+ * Lists installed packs in BIOS order.
+ */
+export function listThemes(): ThemePack[] {
+  return [...registry.values()].sort((a, b) => a.order - b.order || a.displayName.localeCompare(b.displayName));
+}
+
+/**
+ * Checks whether a pack with this id is installed.
+ */
+export function hasTheme(key: string): boolean {
+  return registry.has(key);
+}
+
+/**
+ * Gets a theme pack, falling back to the default (or first installed) pack
+ * for unknown ids, e.g. a save from a pack that has since been removed.
+ *
+ * @param key - The pack id
+ * @returns The pack
+ */
+export function getTheme(key: ThemeKey = DEFAULT_THEME): ThemePack {
+  const pack = registry.get(key) ?? registry.get(DEFAULT_THEME) ?? listThemes()[0];
+  if (!pack) {
+    throw new Error('No theme packs are installed');
+  }
+  return pack;
+}
+
+/**
+ * CSS custom properties that tint the terminal in a pack's phosphor color.
+ *
+ * @param color - The pack's #rrggbb color
+ * @returns Values for --crt-text, --crt-text-dim and --crt-text-glow
+ */
+export function crtPalette(color: string): Record<string, string> {
+  const [r, g, b] = [1, 3, 5].map((i) => parseInt(color.slice(i, i + 2), 16));
+  const dim = (value: number) => Math.round(value * 0.67);
+  return {
+    '--crt-text': color,
+    '--crt-text-dim': `rgb(${dim(r)}, ${dim(g)}, ${dim(b)})`,
+    '--crt-text-glow': `rgba(${r}, ${g}, ${b}, 0.5)`,
+  };
+}
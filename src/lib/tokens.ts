@@ -0,0 +1,44 @@
+/**
+ * Rough characters per token for English prose.
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Rough token estimate. Good enough for budgeting; no tokenizer needed.
+ *
+ * @param text - Text to measure
+ * @returns Estimated token count
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Trims text to a token budget, keeping its beginning.
+ *
+ * @param text - Text to trim
+ * @param budget - Token budget
+ * @returns The text, cut at a line break where possible and marked with "…"
+ */
+export function keepHead(text: string, budget: number): string {
+  const maxChars = budget * CHARS_PER_TOKEN;
+  if (text.length <= maxChars) return text;
+  const head = text.slice(0, Math.max(0, maxChars - 1));
+  const lineEnd = head.lastIndexOf('\n');
+  return `${lineEnd > 0 ? head.slice(0, lineEnd) : head}…`;
+}
+
+/**
+ * Trims text to a token budget, keeping its end (the most recent events).
+ *
+ * @param text - Text to trim
+ * @param budget - Token budget
+ * @returns The text, cut at a sentence boundary where possible and marked with "…"
+ */
+export function keepTail(text: string, budget: number): string {
+  const maxChars = budget * CHARS_PER_TOKEN;
+  if (text.length <= maxChars) return text;
+  const tail = text.slice(text.length - Math.max(0, maxChars - 1));
+  const sentenceStart = tail.indexOf('. ');
+  return `…${sentenceStart === -1 ? tail : tail.slice(sentenceStart + 1)}`.trim();
+}
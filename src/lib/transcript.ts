@@ -0,0 +1,151 @@
+import { z } from 'zod';
+import type { NarrativeEntry } from '@/types/game';
+import { SavedGameStateSchema, type SavedGameState } from './save-schema';
+import { getTheme } from './themes';
+import { formatStat, normalizeStats } from './stats';
+import { getCurrentLocation } from './world';
+import { formatItem } from './inventory';
+
+/**
+ * Identifies exported run files regardless of their name.
+ */
+export const RUN_EXPORT_FORMAT = 'echoes-of-the-void/run';
+
+/**
+ * Current run export version.
+ */
+export const RUN_EXPORT_VERSION = 1;
+
+/**
+ * A shareable run. Validated strictly: unknown keys are rejected.
+ */
+export const RunExportSchema = z.strictObject({
+  format: z.literal(RUN_EXPORT_FORMAT),
+  version: z.literal(RUN_EXPORT_VERSION),
+  exportedAt: z.number(),
+  startedAt: z.number(),
+  endedAt: z.number(),
+  run: SavedGameStateSchema.strict(),
+});
+
+export type RunExport = z.infer<typeof RunExportSchema>;
+
+/**
+ * Result of parsing an imported run file.
+ */
+export type RunImportResult =
+  | { success: true; data: RunExport }
+  | { success: false; error: string };
+
+/**
+ * Builds a versioned export of a run. The server session id is left out,
+ * so whoever receives the file can't play turns in the player's session.
+ * 
+ * @param run - The persisted slice of the game state
+ * @returns The export, with start/end taken from the narrative log
+ */
+export function createRunExport(run: SavedGameState): RunExport {
+  const now = Date.now();
+  const entries = run.narrativeEntries;
+  return {
+    format: RUN_EXPORT_FORMAT,
+    version: RUN_EXPORT_VERSION,
+    exportedAt: now,
+    startedAt: entries[0]?.timestamp ?? now,
+    endedAt: entries[entries.length - 1]?.timestamp ?? now,
+    run: { ...run, sessionId: undefined },
+  };
+}
+
+/**
+ * Parses and validates an imported run file.
+ * 
+ * @param text - Raw file contents
+ * @returns The validated export, or a short reason for rejection
+ */
+export function parseRunExport(text: string): RunImportResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return { success: false, error: 'File is not valid JSON' };
+  }
+
+  const result = RunExportSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.length > 0 ? issue.path.join('.') : 'file';
+    return { success: false, error: `${path}: ${issue.message}` };
+  }
+  return { success: true, data: result.data };
+}
+
+/**
+ * Formats a single narrative entry as Markdown.
+ * ASCII art is fenced so its spacing survives.
+ */
+function formatEntry(entry: NarrativeEntry): string {
+  switch (entry.type) {
+    case 'player':
+      return `> ${entry.content}`;
+    case 'ascii':
+      return `\`\`\`\n${entry.content.replace(/^\n+|\s+$/g, '')}\n\`\`\``;
+    case 'system':
+      return `    ${entry.content.split('\n').join('\n    ')}`;
+    case 'narrator':
+    default:
+      return entry.content;
+  }
+}
+
+/**
+ * Renders a human-readable Markdown transcript of a run.
+ * 
+ * @param runExport - The run to render
+ * @returns Markdown text including ASCII art entries
+ */
+export function formatTranscript(runExport: RunExport): string {
+  const { run } = runExport;
+  const turns = Math.floor(run.history.length / 2);
+  const location = getCurrentLocation(run.world);
+  const pack = getTheme(run.currentTheme);
+  const stats = normalizeStats(pack, run.stats, run.health);
+
+  const header = [
+    '# Echoes of the Void — Transcript',
+    '',
+    `- Protocol: ${pack.displayName}`,
+    `- Seed: ${run.seed ?? 'Unknown'}`,
+    `- Started: ${new Date(runExport.startedAt).toISOString()}`,
+    `- Ended: ${new Date(runExport.endedAt).toISOString()}`,
+    `- Turns: ${turns}`,
+    `- Final stats: ${pack.stats.map((stat) => `${stat.label} ${formatStat(stat, stats[stat.id])}`).join(', ')}${run.isGameOver && !run.ending ? ' (DECEASED)' : ''}`,
+    ...(run.ending ? [`- Ending: ${run.ending.title} — ${run.ending.epitaph}`] : []),
+    `- Inventory: ${run.inventory.length > 0 ? run.inventory.map(formatItem).join(', ') : 'Empty'}`,
+    `- Last location: ${location?.name ?? 'Unknown'}`,
+    '',
+    '---',
+    '',
+  ];
+
+  return header.join('\n') + run.narrativeEntries.map(formatEntry).join('\n\n') + '\n';
+}
+
+/**
+ * Offers text content to the player as a file download.
+ * 
+ * @param filename - Suggested file name
+ * @param content - File contents
+ * @param type - MIME type
+ */
+export function downloadFile(filename: string, content: string, type: string): void {
+  // Only run in browser environment
+  if (typeof window === 'undefined') return;
+
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
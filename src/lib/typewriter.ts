@@ -8,6 +8,12 @@
 export interface TypewriterOptions {
   /** Speed in milliseconds per character */
   speed?: number;
+  /**
+   * Whether more text may still arrive via setText().
+   * A streaming typewriter waits when it catches up instead of completing,
+   * and only completes after end() is called.
+   */
+  streaming?: boolean;
   /** Callback fired on each character reveal */
   onUpdate?: (text: string) => void;
   /** Callback fired when animation completes */
@@ -25,6 +31,10 @@ export interface TypewriterController {
   resume: () => void;
   /** Stop and reset the animation */
   stop: () => void;
+  /** Replace the target text with a longer version (streaming mode) */
+  setText: (text: string) => void;
+  /** Signal that no more text will arrive (streaming mode) */
+  end: () => void;
   /** Check if animation is currently running */
   isRunning: () => boolean;
   /** Check if animation is complete */
@@ -35,8 +45,9 @@ export interface TypewriterController {
 
 /**
  * Creates a typewriter animation controller for the given text.
+ * In streaming mode the text may keep growing via setText() while revealing.
  * 
- * @param fullText - The complete text to reveal
+ * @param fullText - The text to reveal (initial text when streaming)
  * @param options - Configuration options
  * @returns TypewriterController for managing the animation
  * 
@@ -49,6 +60,12 @@ export interface TypewriterController {
  * });
  * controller.start();
  * // Later: controller.skip() to reveal all text immediately
+ *
+ * const streamed = createTypewriter("", { streaming: true, onUpdate });
+ * streamed.start();
+ * streamed.setText("Hello");
+ * streamed.setText("Hello, world!");
+ * streamed.end();
  * ```
  */
 export function createTypewriter(
@@ -57,30 +74,48 @@ export function createTypewriter(
 ): TypewriterController {
   const { speed = 30, onUpdate, onComplete } = options;
 
+  let targetText = fullText;
+  let streaming = options.streaming ?? false;
   let currentIndex = 0;
   let timerId: ReturnType<typeof setTimeout> | null = null;
   let running = false;
   let complete = false;
   let paused = false;
+  /** Caught up with a streaming source and waiting for more text */
+  let waiting = false;
+  /** Skipped while streaming: reveal further text immediately */
+  let instant = false;
+
+  const finish = () => {
+    complete = true;
+    running = false;
+    waiting = false;
+    onComplete?.();
+  };
 
   const tick = () => {
     if (!running || paused) return;
 
-    if (currentIndex <= fullText.length) {
-      const currentText = fullText.slice(0, currentIndex);
+    if (currentIndex <= targetText.length) {
+      const currentText = targetText.slice(0, currentIndex);
       onUpdate?.(currentText);
       currentIndex++;
 
-      if (currentIndex <= fullText.length) {
+      if (currentIndex <= targetText.length) {
         timerId = setTimeout(tick, speed);
+      } else if (streaming) {
+        waiting = true;
       } else {
-        complete = true;
-        running = false;
-        onComplete?.();
+        finish();
       }
     }
   };
 
+  const revealAll = () => {
+    currentIndex = targetText.length + 1;
+    onUpdate?.(targetText);
+  };
+
   const controller: TypewriterController = {
     start: () => {
       if (running || complete) return;
@@ -99,11 +134,18 @@ export function createTypewriter(
       }
 
       // Reveal all text immediately
-      currentIndex = fullText.length;
-      onUpdate?.(fullText);
-      complete = true;
-      running = false;
-      onComplete?.();
+      revealAll();
+
+      // While streaming, keep revealing new text instantly until end()
+      if (streaming) {
+        instant = true;
+        running = true;
+        paused = false;
+        waiting = true;
+        return;
+      }
+
+      finish();
     },
 
     pause: () => {
@@ -118,6 +160,9 @@ export function createTypewriter(
     resume: () => {
       if (!paused || complete) return;
       paused = false;
+      // Nothing new to reveal until the stream sends more text
+      if (waiting && currentIndex > targetText.length) return;
+      waiting = false;
       tick();
     },
 
@@ -128,15 +173,44 @@ export function createTypewriter(
       }
       running = false;
       paused = false;
+      waiting = false;
+      instant = false;
+      streaming = options.streaming ?? false;
+      targetText = fullText;
       currentIndex = 0;
       complete = false;
     },
 
+    setText: (text: string) => {
+      if (complete || text === targetText) return;
+      targetText = text;
+
+      if (instant) {
+        revealAll();
+        return;
+      }
+
+      // Pick up where we left off if we had caught up with the stream
+      if (waiting && running && !paused) {
+        waiting = false;
+        tick();
+      }
+    },
+
+    end: () => {
+      if (!streaming || complete) return;
+      streaming = false;
+
+      if (waiting && currentIndex > targetText.length) {
+        finish();
+      }
+    },
+
     isRunning: () => running && !paused,
 
     isComplete: () => complete,
 
-    getCurrentText: () => fullText.slice(0, currentIndex),
+    getCurrentText: () => targetText.slice(0, currentIndex),
   };
 
   return controller;
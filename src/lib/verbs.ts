@@ -0,0 +1,119 @@
+import type { GameState, NarrativeEntry } from '@/types/game';
+import type { ParsedCommand } from './parser';
+import { getTheme } from './themes';
+import { renderMap } from './ascii';
+import { findItem, formatItem, describeItem } from './inventory';
+import { findNpc } from './npcs';
+import { formatJournal } from './quests';
+import { formatLifetimeStats, formatRunStats } from './run-stats';
+import { StatsHistory } from './stats-history';
+import { formatAchievements, listAchievements } from './achievements';
+import { AchievementLog } from './achievement-log';
+
+/**
+ * A narrative entry produced by a local verb.
+ */
+export type LocalVerbEntry = Omit<NarrativeEntry, 'id' | 'timestamp'>;
+
+/**
+ * Answers a command locally from the current game state, without the network.
+ * Returning null declines the command, which is then sent to the Dungeon Master.
+ */
+export type LocalVerbHandler = (command: ParsedCommand, state: GameState) => LocalVerbEntry[] | null;
+
+/**
+ * Verbs answered locally, keyed by canonical verb.
+ */
+const LOCAL_VERBS = new Map<string, LocalVerbHandler>([
+  [
+    'help',
+    (_command, state) => [{ type: 'system', content: getTheme(state.currentTheme).helpText }],
+  ],
+  [
+    'map',
+    (_command, state) => {
+      // Draw the auto-map from remembered geography
+      const map = renderMap(state.world);
+      return [
+        map
+          ? { type: 'ascii', content: map }
+          : { type: 'system', content: 'NO MAP DATA. The darkness has not yet taken shape.' },
+      ];
+    },
+  ],
+  [
+    'inventory',
+    (_command, state) => [
+      {
+        type: 'system',
+        content: state.inventory.length > 0
+          ? `► CARRYING: ${state.inventory.map((item) => formatItem(item).toUpperCase()).join(', ')}`
+          : '► CARRYING: NOTHING. Your hands are empty.',
+      },
+    ],
+  ],
+  [
+    'journal',
+    (_command, state) => [{ type: 'system', content: formatJournal(state.quests) }],
+  ],
+  [
+    'stats',
+    (_command, state) => [
+      { type: 'system', content: formatRunStats(state.runStats) },
+      {
+        type: 'system',
+        content: formatLifetimeStats(getTheme(state.currentTheme).displayName, StatsHistory.read(state.currentTheme)),
+      },
+    ],
+  ],
+  [
+    'achievements',
+    (_command, state) => [
+      {
+        type: 'system',
+        content: formatAchievements(listAchievements(), AchievementLog.read().unlocked, state.currentTheme),
+      },
+    ],
+  ],
+  [
+    'examine',
+    (command, state) => {
+      // Only carried items are described locally; the scene needs the Dungeon Master
+      const item = command.item ? findItem(state.inventory, command.item) : undefined;
+      return item ? [{ type: 'system', content: describeItem(item) }] : null;
+    },
+  ],
+  [
+    'talk',
+    (command, state) => {
+      // Conversations need the Dungeon Master, unless there is no one to hear
+      if (!command.object) {
+        return [{ type: 'system', content: '► TALK TO WHOM?' }];
+      }
+      const npc = findNpc(state.npcs, command.object);
+      return npc && !npc.alive
+        ? [{ type: 'system', content: `► ${npc.name.toUpperCase()} IS DEAD. The dead keep their secrets.` }]
+        : null;
+    },
+  ],
+]);
+
+/**
+ * Registers (or replaces) a locally answered verb.
+ * 
+ * @param verb - The canonical verb
+ * @param handler - Produces the entries to show
+ */
+export function registerLocalVerb(verb: string, handler: LocalVerbHandler): void {
+  LOCAL_VERBS.set(verb, handler);
+}
+
+/**
+ * Looks up the local handler for a canonical verb.
+ * 
+ * @param verb - The canonical verb
+ * @returns The handler, or undefined if the verb always needs the Dungeon Master
+ */
+export function getLocalVerb(verb: string): LocalVerbHandler | undefined {
+  return LOCAL_VERBS.get(verb);
+}
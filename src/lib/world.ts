@@ -0,0 +1,96 @@
+import type { Direction, WorldUpdate } from './schema';
+import type { WorldLocation, WorldState } from './save-schema';
+
+/**
+ * World state before the first scene has been described.
+ */
+export const INITIAL_WORLD: WorldState = {
+  currentLocationId: null,
+  locations: {},
+};
+
+/**
+ * The direction leading back the way you came.
+ */
+export const OPPOSITE_DIRECTION: Record<Direction, Direction> = {
+  north: 'south',
+  south: 'north',
+  east: 'west',
+  west: 'east',
+};
+
+/**
+ * Gets a location, creating an unvisited placeholder if it isn't known yet.
+ */
+function ensureLocation(locations: Record<string, WorldLocation>, id: string, name: string): WorldLocation {
+  const existing = locations[id];
+  if (existing) return existing;
+  const created: WorldLocation = { id, name, visited: false, exits: {} };
+  locations[id] = created;
+  return created;
+}
+
+/**
+ * Links two locations in both directions, without overwriting known exits.
+ */
+function link(
+  locations: Record<string, WorldLocation>,
+  fromId: string,
+  direction: Direction,
+  toId: string
+): void {
+  const from = locations[fromId];
+  const to = locations[toId];
+  from.exits = { ...from.exits, [direction]: toId };
+  const back = OPPOSITE_DIRECTION[direction];
+  if (!to.exits[back]) {
+    to.exits = { ...to.exits, [back]: fromId };
+  }
+}
+
+/**
+ * Applies the Dungeon Master's world update to the remembered map.
+ * Marks the current location visited, records its exits (and the reverse
+ * exits back), and links the previous location when the player moved.
+ * 
+ * @param world - The current world state
+ * @param update - The world_update from the AI response, if any
+ * @param via - Direction the player moved this turn, if it was a move
+ * @returns The new world state (the input is not mutated)
+ */
+export function updateWorld(world: WorldState, update: WorldUpdate | undefined, via?: Direction): WorldState {
+  if (!update) return world;
+
+  const locations: Record<string, WorldLocation> = {};
+  for (const [id, location] of Object.entries(world.locations)) {
+    locations[id] = { ...location, exits: { ...location.exits } };
+  }
+
+  const previousId = world.currentLocationId;
+  const current = ensureLocation(locations, update.location_id, update.location_name);
+  current.name = update.location_name;
+  current.visited = true;
+
+  for (const exit of update.exits ?? []) {
+    if (exit.to_id === current.id) continue;
+    ensureLocation(locations, exit.to_id, exit.to_name);
+    link(locations, current.id, exit.direction, exit.to_id);
+  }
+
+  // Remember the path actually taken, even if the model didn't list it
+  if (via && previousId && previousId !== current.id && locations[previousId]) {
+    link(locations, previousId, via, current.id);
+  }
+
+  return { currentLocationId: current.id, locations };
+}
+
+/**
+ * Gets the location the player is currently in.
+ * 
+ * @param world - The world state
+ * @returns The current location, or undefined before the first scene
+ */
+export function getCurrentLocation(world: WorldState): WorldLocation | undefined {
+  return world.currentLocationId ? world.locations[world.currentLocationId] : undefined;
+}
@@ -0,0 +1,47 @@
+import { onGameEvent, type GameEvent } from '@/lib/game-events';
+import { checkAchievements, formatBadge, listAchievements, type AchievementFacts } from '@/lib/achievements';
+import { AchievementLog } from '@/lib/achievement-log';
+import { useGameStore } from './game-store';
+
+/**
+ * Measures the game, as the store holds it after an event, for the
+ * achievement conditions.
+ */
+function gatherFacts(event: GameEvent, themesPlayed: number): AchievementFacts {
+  const state = useGameStore.getState();
+  return {
+    theme: state.currentTheme,
+    turns: state.runStats.turns,
+    damage: event.type === 'damage' ? event.amount : 0,
+    damageTaken: state.runStats.damageTaken,
+    health: state.health,
+    itemsHeld: state.inventory.reduce((sum, item) => sum + item.quantity, 0),
+    themesPlayed,
+    ending: state.ending?.type,
+  };
+}
+
+/**
+ * Starts the achievement engine: checks every game event against the
+ * achievement definitions, persists new unlocks and announces each one
+ * with a badge in the log.
+ *
+ * @returns A function that stops watching
+ */
+export function watchAchievements(): () => void {
+  return onGameEvent((event) => {
+    const themesPlayed = event.type === 'theme'
+      ? AchievementLog.addTheme(event.theme)
+      : AchievementLog.read().themes.length;
+    const facts = gatherFacts(event, themesPlayed);
+    const unlocked = checkAchievements(listAchievements(), event, facts, AchievementLog.read().unlocked);
+
+    for (const achievement of unlocked) {
+      AchievementLog.unlock(achievement.id, facts.theme);
+      useGameStore.getState().addNarrativeEntry({
+        type: 'system',
+        content: formatBadge(achievement),
+      });
+    }
+  });
+}
@@ -1,14 +1,40 @@
 import { create } from 'zustand';
 import type { GameState, NarrativeEntry, ConversationTurn, TextSpeed } from '@/types/game';
-import type { GameStateUpdate } from '@/lib/schema';
-import { generateNarrative } from '@/app/actions/generate-narrative';
+import type { StructuredResponse } from '@/lib/schema';
+import { startGame, restoreSession, shiftReality as shiftSessionReality } from '@/app/actions/generate-narrative';
+import { streamNarrative } from '@/lib/narrative-stream';
+import type { NarrativeErrorType, SessionUpdate } from '@/lib/narrative';
 import { getASCIIArt } from '@/lib/ascii';
 import { SoundManager } from '@/lib/sound-manager';
-import { THEMES, THEME_CONFIG, type ThemeKey } from '@/lib/prompts';
+import { DEFAULT_THEME, getTheme, type ThemeKey } from '@/lib/themes';
+import {
+  SAVE_VERSION,
+  type ActiveEffect,
+  type Encounter,
+  type Npc,
+  type Quest,
+  type RunEnding,
+  type RunTally,
+  type SaveGame,
+  type SavedGameState,
+  type InventoryItem,
+  emptyRunStats,
+} from '@/lib/save-schema';
+import { SaveSlots, AUTOSAVE_SLOT } from '@/lib/save-slots';
+import { parseRunExport } from '@/lib/transcript';
+import { INITIAL_WORLD } from '@/lib/world';
+import { INITIAL_MEMORY } from '@/lib/memory';
+import { parseCommand } from '@/lib/parser';
+import { getLocalVerb } from '@/lib/verbs';
+import { formatRoll } from '@/lib/skill-check';
+import { createRng, createSeed, type Rng } from '@/lib/random';
+import { deathCause, recordCommand, recordTime, recordTurn, type TurnSnapshot } from '@/lib/run-stats';
+import { StatsHistory } from '@/lib/stats-history';
+import { emitGameEvent } from '@/lib/game-events';
 
 /**
  * Tracks the current initialization session to prevent race conditions.
- * Incremented on each reset/theme change to invalidate pending requests.
+ * Incremented on each reset/theme change/load to invalidate pending requests.
  */
 let initializationSession = 0;
 
@@ -17,22 +43,64 @@ let initializationSession = 0;
  */
 const INITIAL_STATE = {
   health: 100,
-  inventory: [] as string[],
+  stats: {} as Record<string, number>,
+  effects: [] as ActiveEffect[],
+  encounter: null as Encounter | null,
+  npcs: {} as Record<string, Npc>,
+  quests: [] as Quest[],
+  inventory: [] as InventoryItem[],
   isGameOver: false,
+  tally: { itemsFound: 0, damageTaken: 0 } as RunTally,
+  ending: null as RunEnding | null,
+  runStats: emptyRunStats(),
+  world: INITIAL_WORLD,
+  sessionId: null as string | null,
+  seed: null as string | null,
+  signature: null as string | null,
+  memory: INITIAL_MEMORY,
   history: [] as ConversationTurn[],
   isProcessing: false,
   isTyping: false,
   narrativeEntries: [] as NarrativeEntry[],
   isMuted: false,
-  currentTheme: 'horror' as ThemeKey,
+  currentTheme: DEFAULT_THEME as ThemeKey,
   textSpeed: 'normal' as TextSpeed,
 };
 
+/**
+ * Random source for narrative entry ids. Reseeded from the run seed when a
+ * run starts or is restored, so replaying a seed produces the same ids.
+ */
+let entryRng: Rng = createRng(createSeed());
+
+/**
+ * Reseeds entry ids from a run seed. Entries already in the log offset the
+ * sequence so a restored run never reuses their ids.
+ */
+function seedEntryIds(seed: string, logged: number): void {
+  entryRng = createRng(`${seed}:entries:${logged}`);
+}
+
 /**
  * Generates a unique ID for narrative entries.
  */
 function generateId(): string {
-  return `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+  return Math.floor(entryRng() * 36 ** 10).toString(36).padStart(10, '0');
+}
+
+/**
+ * When the player last did something, for measuring play time.
+ */
+let lastActivityAt = Date.now();
+
+/**
+ * Milliseconds since the player last did something; restarts the clock.
+ */
+function sinceLastActivity(): number {
+  const now = Date.now();
+  const elapsed = now - lastActivityAt;
+  lastActivityAt = now;
+  return elapsed;
 }
 
 /**
@@ -59,6 +127,9 @@ export const useGameStore = create<GameState>((set, get) => ({
   /**
    * Adds a new entry to the narrative log.
    * Automatically generates id and timestamp.
+   * System entries don't interrupt a typewriter that is still running.
+   * 
+   * @returns The id of the new entry
    */
   addNarrativeEntry: (entry: Omit<NarrativeEntry, 'id' | 'timestamp'>) => {
     const newEntry: NarrativeEntry = {
@@ -68,7 +139,31 @@ export const useGameStore = create<GameState>((set, get) => ({
     };
     set((state) => ({
       narrativeEntries: [...state.narrativeEntries, newEntry],
-      isTyping: entry.type === 'narrator' || entry.type === 'ascii',
+      isTyping: entry.type === 'narrator' || entry.type === 'ascii' || (entry.type === 'system' && state.isTyping),
+    }));
+    return newEntry.id;
+  },
+
+  /**
+   * Updates an existing narrative entry in place.
+   * Used to grow a narrator entry while its text is streamed in.
+   */
+  updateNarrativeEntry: (id, patch) => {
+    set((state) => ({
+      narrativeEntries: state.narrativeEntries.map((entry) =>
+        entry.id === id ? { ...entry, ...patch } : entry
+      ),
+    }));
+  },
+
+  /**
+   * Removes an entry from the narrative log.
+   * Used to drop a partially streamed narrative when its turn fails.
+   */
+  removeNarrativeEntry: (id: string) => {
+    set((state) => ({
+      narrativeEntries: state.narrativeEntries.filter((entry) => entry.id !== id),
+      isTyping: false,
     }));
   },
 
@@ -81,61 +176,86 @@ export const useGameStore = create<GameState>((set, get) => ({
 
 
   /**
-   * Applies state updates from AI response.
-   * Handles health_change, inventory_add, inventory_remove.
-   * Clamps health between 0-100 and triggers game over at 0.
-   * Adds system notifications for inventory changes.
+   * Mirrors the authoritative state returned by the server.
+   * The server applies every state change; the store only copies it and
+   * shows the notices (ACQUIRED, USED...) describing what changed.
    */
-  applyStateUpdate: (update: GameStateUpdate) => {
-    const itemAdded = update.inventory_add;
-    const itemRemoved = update.inventory_remove;
-    
-    set((state) => {
-      let newHealth = state.health;
-      let newInventory = [...state.inventory];
-
-      // Apply health change with clamping
-      if (update.health_change !== undefined) {
-        newHealth = Math.max(0, Math.min(100, state.health + update.health_change));
-      }
-
-      // Add item to inventory if not already present
-      if (itemAdded && !newInventory.includes(itemAdded)) {
-        newInventory.push(itemAdded);
-      }
-
-      // Remove item from inventory
-      if (itemRemoved) {
-        newInventory = newInventory.filter((item) => item !== itemRemoved);
-      }
-
-      return {
-        health: newHealth,
-        inventory: newInventory,
-        isGameOver: newHealth <= 0,
-      };
+  syncSession: (update: SessionUpdate) => {
+    if (update.state.seed !== get().seed) {
+      seedEntryIds(update.state.seed, get().narrativeEntries.length);
+    }
+    set({
+      sessionId: update.sessionId,
+      seed: update.state.seed,
+      signature: update.signature,
+      health: update.state.health,
+      stats: update.state.stats,
+      effects: update.state.effects,
+      encounter: update.state.encounter,
+      npcs: update.state.npcs,
+      quests: update.state.quests,
+      inventory: update.state.inventory,
+      isGameOver: update.state.isGameOver,
+      tally: update.state.tally,
+      ending: update.state.ending,
+      world: update.state.world,
+      history: update.state.history,
+      memory: update.state.memory,
+      currentTheme: update.state.currentTheme,
     });
 
-    // Add system notifications for inventory changes (after state update)
-    if (itemAdded) {
+    for (const notice of update.notices) {
       get().addNarrativeEntry({
         type: 'system',
-        content: `► ACQUIRED: ${itemAdded.toUpperCase()}`,
+        content: notice,
       });
     }
-    if (itemRemoved) {
-      get().addNarrativeEntry({
-        type: 'system',
-        content: `► USED: ${itemRemoved.toUpperCase()}`,
-      });
+  },
+
+  /**
+   * Counts a resolved turn in the run's statistics. When the turn ended
+   * the run, notes what killed the player and adds the run to the theme's
+   * lifetime statistics. Then announces what the turn did (damage,
+   * inventory changes, the turn itself, the ending) as game events.
+   *
+   * @param before - Player state before the turn
+   * @param response - The turn's response, for its cues
+   */
+  recordTurnStats: (before: TurnSnapshot, response: StructuredResponse) => {
+    const state = get();
+    const pack = getTheme(state.currentTheme);
+    const runStats = recordTurn(state.runStats, pack, before, state, response);
+    if (!state.ending) {
+      set({ runStats });
+    } else {
+      const finished = {
+        ...runStats,
+        causeOfDeath: deathCause(pack, state.ending, state.stats, state.encounter?.enemy.name),
+      };
+      set({ runStats: finished });
+      StatsHistory.record(state.currentTheme, finished, state.ending);
+    }
+
+    const damage = runStats.damageTaken - state.runStats.damageTaken;
+    if (damage > 0) {
+      emitGameEvent({ type: 'damage', amount: damage });
+    }
+    if (runStats.itemsAcquired !== state.runStats.itemsAcquired || runStats.itemsUsed !== state.runStats.itemsUsed) {
+      emitGameEvent({ type: 'inventory' });
+    }
+    emitGameEvent({ type: 'turn', turns: runStats.turns });
+    if (state.ending) {
+      emitGameEvent({ type: 'ending', ending: state.ending });
     }
   },
 
   /**
    * Resets the game to initial state and triggers re-initialization.
    * Preserves the current theme and user preferences.
+   *
+   * @param seed - Seed to replay; a new run gets a fresh one
    */
-  resetGame: () => {
+  resetGame: (seed?: string) => {
     // Increment session to invalidate any pending initialization
     initializationSession++;
     
@@ -144,14 +264,17 @@ export const useGameStore = create<GameState>((set, get) => ({
     const textSpeed = get().textSpeed;
     set({ ...INITIAL_STATE, currentTheme, isMuted, textSpeed });
     // Trigger new game initialization after reset
-    get().initializeGame();
+    get().initializeGame(seed);
   },
 
   /**
    * Sets the game theme and reboots the universe.
    * Triggers resetGame and initializeGame with the new theme's prompt.
+   *
+   * @param theme - The theme to play
+   * @param seed - Seed to replay; a new run gets a fresh one
    */
-  setTheme: (theme: ThemeKey) => {
+  setTheme: (theme: ThemeKey, seed?: string) => {
     // Increment session to invalidate any pending initialization
     initializationSession++;
     
@@ -162,16 +285,269 @@ export const useGameStore = create<GameState>((set, get) => ({
       textSpeed: get().textSpeed,
     });
     // Trigger new game initialization with new theme
-    get().initializeGame();
+    get().initializeGame(seed);
+  },
+
+  /**
+   * Shifts the current run into another theme without losing progress.
+   * The server translates the scene and inventory into the new theme and
+   * reports each translated item. With no run to carry over (not started,
+   * or over) the universe is rebooted instead.
+   */
+  shiftReality: async (theme: ThemeKey) => {
+    const state = get();
+    if (state.isProcessing || theme === state.currentTheme) {
+      return;
+    }
+    if (!state.sessionId || state.isGameOver || state.history.length === 0) {
+      get().setTheme(theme);
+      return;
+    }
+
+    // Capture session so a reset/load mid-shift discards the result
+    const currentSession = initializationSession;
+    set({ isProcessing: true });
+
+    try {
+      const response = await shiftSessionReality({ sessionId: state.sessionId, theme });
+      if (currentSession !== initializationSession) {
+        return;
+      }
+
+      if (response.success && response.data && response.session) {
+        get().syncSession(response.session);
+        get().addNarrativeEntry({
+          type: 'narrator',
+          content: response.data.narrative,
+        });
+        emitGameEvent({ type: 'theme', theme });
+
+        if (response.data.visual_cue !== 'none') {
+          const art = getASCIIArt(response.data.visual_cue, get().currentTheme);
+          if (art) {
+            get().addNarrativeEntry({
+              type: 'ascii',
+              content: art,
+            });
+          }
+        }
+
+        if (response.data.sound_cue !== 'none') {
+          SoundManager.play(response.data.sound_cue);
+        }
+
+        get().saveGame(AUTOSAVE_SLOT);
+      } else {
+        get().addNarrativeEntry({
+          type: 'system',
+          content: response.errorType === 'session'
+            ? `REALITY UNSTABLE: ${response.error}`
+            : `THE VOID TREMBLES: ${response.error || 'Unknown disturbance'}`,
+        });
+      }
+    } catch (error) {
+      if (currentSession !== initializationSession) {
+        return;
+      }
+      console.error('Failed to shift reality:', error);
+      get().addNarrativeEntry({
+        type: 'system',
+        content: 'CONNECTION TO THE VOID LOST. Try again.',
+      });
+    } finally {
+      if (currentSession === initializationSession) {
+        set({ isProcessing: false });
+      }
+    }
+  },
+
+  /**
+   * Restores the autosave if one exists, otherwise starts a new game.
+   * Called once when the game page mounts.
+   */
+  resumeGame: () => {
+    if (!get().loadGame(AUTOSAVE_SLOT)) {
+      get().initializeGame();
+    }
+  },
+
+  /**
+   * Captures the persistable slice of the current game.
+   * Shared by save slots and run exports.
+   */
+  getSnapshot: () => {
+    const state = get();
+    return {
+      health: state.health,
+      stats: state.stats,
+      effects: state.effects,
+      encounter: state.encounter,
+      seed: state.seed ?? undefined,
+      npcs: state.npcs,
+      quests: state.quests,
+      inventory: state.inventory,
+      isGameOver: state.isGameOver,
+      tally: state.tally,
+      ending: state.ending,
+      runStats: state.runStats,
+      history: state.history,
+      narrativeEntries: state.narrativeEntries.map(({ id, type, content, timestamp }) => ({
+        id,
+        type,
+        content,
+        timestamp,
+      })),
+      currentTheme: state.currentTheme,
+      world: state.world,
+      memory: state.memory,
+      sessionId: state.sessionId ?? undefined,
+      signature: state.signature ?? undefined,
+    };
+  },
+
+  /**
+   * Replaces the current game with a previously captured snapshot, then
+   * reattaches it to a server session. Commands are held until the server
+   * confirms the session and its authoritative state.
+   * Invalidates the current session first so in-flight requests can't
+   * write into the restored game.
+   * 
+   * @param snapshot - The game to restore
+   * @param notice - System message announcing the restore
+   */
+  restoreSnapshot: async (snapshot: SavedGameState, notice: string) => {
+    // Increment session to invalidate any pending initialization or command
+    initializationSession++;
+    const currentSession = initializationSession;
+
+    set({
+      ...INITIAL_STATE,
+      ...snapshot,
+      sessionId: null,
+      seed: snapshot.seed ?? null,
+      signature: snapshot.signature ?? null,
+      isMuted: get().isMuted,
+      textSpeed: get().textSpeed,
+    });
+    if (snapshot.seed) {
+      seedEntryIds(snapshot.seed, snapshot.narrativeEntries.length);
+    }
+    // Time away from a saved run isn't play time
+    sinceLastActivity();
+    get().addNarrativeEntry({
+      type: 'system',
+      content: notice,
+    });
+
+    // A snapshot taken before the prologue resolved has nothing to resume
+    if (snapshot.history.length === 0) {
+      get().initializeGame();
+      return;
+    }
+
+    set({ isProcessing: true });
+    try {
+      const result = await restoreSession(snapshot);
+      if (currentSession !== initializationSession) {
+        return;
+      }
+
+      if (result.success && result.session) {
+        get().syncSession(result.session);
+      } else {
+        get().addNarrativeEntry({
+          type: 'system',
+          content: `CONNECTION TO THE VOID LOST: ${result.error || 'Unknown error'}`,
+        });
+      }
+    } catch (error) {
+      if (currentSession !== initializationSession) {
+        return;
+      }
+      console.error('Failed to restore session:', error);
+      get().addNarrativeEntry({
+        type: 'system',
+        content: 'CONNECTION TO THE VOID LOST. Please refresh to try again.',
+      });
+    } finally {
+      if (currentSession === initializationSession) {
+        set({ isProcessing: false });
+      }
+    }
+  },
+
+  /**
+   * Persists the current game to a save slot.
+   * 
+   * @param slot - The slot id to write
+   * @param name - Optional display name; defaults to the theme and turn count
+   * @returns True if the save was written
+   */
+  saveGame: (slot: string, name?: string) => {
+    const state = get();
+    const turns = Math.floor(state.history.length / 2);
+    const save: SaveGame = {
+      version: SAVE_VERSION,
+      slot,
+      name: name?.trim() || `${getTheme(state.currentTheme).displayName} // TURN ${turns}`,
+      savedAt: Date.now(),
+      state: get().getSnapshot(),
+    };
+    return SaveSlots.write(save);
+  },
+
+  /**
+   * Restores a game from a save slot.
+   * 
+   * @param slot - The slot id to read
+   * @returns True if a valid save was restored
+   */
+  loadGame: (slot: string) => {
+    const save = SaveSlots.read(slot);
+    if (!save) return false;
+
+    get().restoreSnapshot(save.state, `► REALITY RESTORED: ${save.name.toUpperCase()}`);
+    return true;
+  },
+
+  /**
+   * Imports a run from an exported JSON file.
+   * Malformed files are rejected with a system entry; the current game is untouched.
+   * 
+   * @param text - Raw contents of the exported file
+   * @returns True if the run was imported
+   */
+  importRun: (text: string) => {
+    const result = parseRunExport(text);
+    if (!result.success) {
+      get().addNarrativeEntry({
+        type: 'system',
+        content: `► IMPORT REJECTED: ${result.error}`,
+      });
+      return false;
+    }
+
+    // An imported run always gets its own session, even if the file names one
+    get().restoreSnapshot({ ...result.data.run, sessionId: undefined }, '► RUN IMPORTED FROM TRANSCRIPT');
+    return true;
+  },
+
+  /**
+   * Deletes a save slot.
+   */
+  deleteSave: (slot: string) => {
+    SaveSlots.remove(slot);
   },
 
   /**
    * Initializes the game on first load.
-   * Sends __START_GAME__ prompt to generate the prologue.
-   * Uses the current theme's system prompt and opening line.
+   * Starts a server session, which generates the prologue from the
+   * current theme's system prompt and opening line.
    * Protected against race conditions via session tracking.
+   *
+   * @param seed - Seed to replay; a new run gets a fresh one
    */
-  initializeGame: async () => {
+  initializeGame: async (seed?: string) => {
     const state = get();
     
     // Only initialize if history is empty and not already processing
@@ -180,17 +556,11 @@ export const useGameStore = create<GameState>((set, get) => ({
       const currentSession = initializationSession;
       
       set({ isProcessing: true });
-
-      const themeConfig = THEME_CONFIG[state.currentTheme];
-      const systemPrompt = THEMES[state.currentTheme];
+      // The run's clock starts with the prologue
+      sinceLastActivity();
 
       try {
-        const response = await generateNarrative({
-          command: themeConfig.openingLine,
-          history: [],
-          playerState: { health: 100, inventory: [] },
-          systemPrompt,
-        });
+        const response = await startGame(state.currentTheme, seed);
 
         // Check if session changed during async call (user reset/changed theme)
         if (currentSession !== initializationSession) {
@@ -198,16 +568,17 @@ export const useGameStore = create<GameState>((set, get) => ({
           return;
         }
 
-        if (response.success && response.data) {
-          get().applyStateUpdate(response.data.game_state_update);
+        if (response.success && response.data && response.session) {
+          get().syncSession(response.session);
           get().addNarrativeEntry({
             type: 'narrator',
             content: response.data.narrative,
           });
+          emitGameEvent({ type: 'theme', theme: get().currentTheme });
 
           // Handle visual cue if present
           if (response.data.visual_cue !== 'none') {
-            const art = getASCIIArt(response.data.visual_cue);
+            const art = getASCIIArt(response.data.visual_cue, get().currentTheme);
             if (art) {
               get().addNarrativeEntry({
                 type: 'ascii',
@@ -221,14 +592,7 @@ export const useGameStore = create<GameState>((set, get) => ({
             SoundManager.play(response.data.sound_cue);
           }
 
-          // Add to history
-          set((state) => ({
-            history: [
-              ...state.history,
-              { role: 'user' as const, content: '__START_GAME__' },
-              { role: 'assistant' as const, content: response.data!.narrative },
-            ],
-          }));
+          get().saveGame(AUTOSAVE_SLOT);
         } else {
           // Handle API error with user feedback
           get().addNarrativeEntry({
@@ -257,8 +621,11 @@ export const useGameStore = create<GameState>((set, get) => ({
 
   /**
    * Submits a player command for processing.
-   * Adds command to log, calls AI, and applies response.
-   * Handles static "help" and "instructions" commands locally.
+   * Adds command to log, streams the AI narrative into the log as it is
+   * generated, and mirrors the server's state and plays cues once the full
+   * response has been validated and applied server-side.
+   * Commands are parsed first; local verbs (help, map, inventory, examining
+   * carried items) are answered without calling the AI.
    */
   submitCommand: async (command: string) => {
     const state = get();
@@ -274,44 +641,114 @@ export const useGameStore = create<GameState>((set, get) => ({
       content: command,
     });
 
-    // Check for static help command (case-insensitive)
-    const normalizedCommand = command.trim().toLowerCase();
-    if (normalizedCommand === 'help' || normalizedCommand === 'instructions') {
-      const themeHelpMessage = THEME_CONFIG[state.currentTheme].helpMessage;
+    // Answer local verbs (help, map, inventory, examine...) without the network
+    const parsed = parseCommand(command, state.inventory.map((item) => item.name));
+    set({ runStats: recordCommand(recordTime(state.runStats, sinceLastActivity()), parsed.verb) });
+    const localEntries = getLocalVerb(parsed.verb)?.(parsed, state);
+    if (localEntries) {
+      for (const entry of localEntries) {
+        get().addNarrativeEntry(entry);
+      }
+      return;
+    }
+
+    // Everything else goes to the Dungeon Master in canonical form
+    const canonicalCommand = parsed.canonical;
+
+    // Without a server session (e.g. a failed restore) there is no game to continue
+    const sessionId = state.sessionId;
+    if (!sessionId) {
       get().addNarrativeEntry({
         type: 'system',
-        content: themeHelpMessage,
+        content: 'REALITY UNSTABLE: This reality has collapsed. Reboot the universe.',
       });
       return;
     }
 
+    // Capture session so a reset/theme change mid-stream discards this turn
+    const currentSession = initializationSession;
+    let streamingEntryId: string | null = null;
+    // Entries for a skill check's setup and roll, dropped if the turn fails
+    const checkEntryIds: string[] = [];
+    // Drops any partial narrative and roll: the turn never resolved
+    const discardTurn = () => {
+      if (streamingEntryId !== null) {
+        get().removeNarrativeEntry(streamingEntryId);
+      }
+      for (const id of checkEntryIds) {
+        get().removeNarrativeEntry(id);
+      }
+    };
+
     set({ isProcessing: true });
 
     try {
-      const systemPrompt = THEMES[state.currentTheme];
-      const response = await generateNarrative({
-        command,
-        history: state.history,
-        playerState: {
-          health: state.health,
-          inventory: state.inventory,
-        },
-        systemPrompt,
-      });
+      let data: StructuredResponse | undefined;
+      let session: SessionUpdate | undefined;
+      let failure: { error: string; errorType: NarrativeErrorType } | undefined;
 
-      if (response.success && response.data) {
-        // Apply state updates
-        get().applyStateUpdate(response.data.game_state_update);
+      // The server holds the game; it only needs to know which session and what was typed
+      for await (const event of streamNarrative({ sessionId, command: canonicalCommand })) {
+        if (currentSession !== initializationSession) {
+          return;
+        }
 
-        // Add narrative to log
-        get().addNarrativeEntry({
-          type: 'narrator',
-          content: response.data.narrative,
-        });
+        if (event.type === 'narrative') {
+          // Show narrative text as soon as it starts arriving
+          if (streamingEntryId === null) {
+            streamingEntryId = get().addNarrativeEntry({
+              type: 'narrator',
+              content: event.narrative,
+              isStreaming: true,
+            });
+          } else {
+            get().updateNarrativeEntry(streamingEntryId, { content: event.narrative });
+          }
+        } else if (event.type === 'roll') {
+          // The setup is finished: show the dice, then stream the outcome as a new entry
+          if (streamingEntryId === null) {
+            checkEntryIds.push(get().addNarrativeEntry({ type: 'narrator', content: event.check.setup }));
+          } else {
+            get().updateNarrativeEntry(streamingEntryId, { content: event.check.setup, isStreaming: false });
+            checkEntryIds.push(streamingEntryId);
+            streamingEntryId = null;
+          }
+          checkEntryIds.push(get().addNarrativeEntry({ type: 'system', content: formatRoll(event.check.result) }));
+        } else if (event.type === 'complete') {
+          data = event.data;
+          session = event.session;
+        } else {
+          failure = event;
+        }
+      }
+
+      if (currentSession !== initializationSession) {
+        return;
+      }
+
+      if (data && session) {
+        const response = data;
+
+        // Settle the narrative on the final validated text
+        if (streamingEntryId !== null) {
+          get().updateNarrativeEntry(streamingEntryId, {
+            content: response.narrative,
+            isStreaming: false,
+          });
+        } else {
+          get().addNarrativeEntry({
+            type: 'narrator',
+            content: response.narrative,
+          });
+        }
+
+        // Mirror the state the server settled on
+        get().syncSession(session);
+        get().recordTurnStats(state, response);
 
         // Handle visual cue
-        if (response.data.visual_cue !== 'none') {
-          const art = getASCIIArt(response.data.visual_cue);
+        if (response.visual_cue !== 'none') {
+          const art = getASCIIArt(response.visual_cue, get().currentTheme);
           if (art) {
             get().addNarrativeEntry({
               type: 'ascii',
@@ -321,27 +758,24 @@ export const useGameStore = create<GameState>((set, get) => ({
         }
 
         // Handle sound cue
-        if (response.data.sound_cue !== 'none') {
-          SoundManager.play(response.data.sound_cue);
+        if (response.sound_cue !== 'none') {
+          SoundManager.play(response.sound_cue);
         }
 
-        // Update history
-        set((state) => ({
-          history: [
-            ...state.history,
-            { role: 'user' as const, content: command },
-            { role: 'assistant' as const, content: response.data!.narrative },
-          ],
-        }));
+        get().saveGame(AUTOSAVE_SLOT);
       } else {
+        discardTurn();
+
         // Handle API error with clear feedback
-        const errorMessage = response.errorType === 'rate_limit'
+        const errorMessage = failure?.errorType === 'rate_limit'
           ? 'THE VOID IS OVERWHELMED. Wait a moment and try again.'
-          : response.errorType === 'auth'
+          : failure?.errorType === 'auth'
           ? 'AUTHENTICATION FAILED. The void rejects your presence.'
-          : response.errorType === 'network'
+          : failure?.errorType === 'network'
           ? 'CONNECTION TO THE VOID LOST. Check your connection and try again.'
-          : `THE VOID TREMBLES: ${response.error || 'Unknown disturbance'}`;
+          : failure?.errorType === 'session'
+          ? `REALITY UNSTABLE: ${failure.error}`
+          : `THE VOID TREMBLES: ${failure?.error || 'Unknown disturbance'}`;
         
         get().addNarrativeEntry({
           type: 'system',
@@ -349,13 +783,20 @@ export const useGameStore = create<GameState>((set, get) => ({
         });
       }
     } catch (error) {
+      if (currentSession !== initializationSession) {
+        return;
+      }
       console.error('Failed to process command:', error);
+      discardTurn();
       get().addNarrativeEntry({
         type: 'system',
         content: 'CONNECTION TO THE VOID LOST. Try again.',
       });
     } finally {
-      set({ isProcessing: false });
+      // Only clear processing if session is still valid
+      if (currentSession === initializationSession) {
+        set({ isProcessing: false });
+      }
     }
   },
 }));
@@ -1,5 +1,8 @@
-import type { GameStateUpdate } from '@/lib/schema';
-import type { ThemeKey } from '@/lib/prompts';
+import type { SessionUpdate } from '@/lib/narrative';
+import type { ThemeKey } from '@/lib/themes';
+import type { SavedGameState, WorldState, InventoryItem, MemoryState, ActiveEffect, Encounter, Npc, Quest, RunEnding, RunStats, RunTally } from '@/lib/save-schema';
+import type { StructuredResponse } from '@/lib/schema';
+import type { TurnSnapshot } from '@/lib/run-stats';
 
 /**
  * Represents a single turn in the conversation history between player and AI.
@@ -18,6 +21,8 @@ export interface NarrativeEntry {
   type: 'player' | 'narrator' | 'ascii' | 'system';
   content: string;
   timestamp: number;
+  /** True while narrator text is still being streamed in */
+  isStreaming?: boolean;
 }
 
 /**
@@ -31,11 +36,42 @@ export type TextSpeed = 'slow' | 'normal' | 'fast' | 'instant';
 export interface GameState {
   // Player State
   health: number;
-  inventory: string[];
+  /** Every stat the theme declares, by id (health mirrors the primary one) */
+  stats: Record<string, number>;
+  /** Status effects currently active */
+  effects: ActiveEffect[];
+  /** The fight in progress, if any */
+  encounter: Encounter | null;
+  /** Named characters met so far, by id */
+  npcs: Record<string, Npc>;
+  /** Objectives the Dungeon Master opened, in order */
+  quests: Quest[];
+  inventory: InventoryItem[];
   isGameOver: boolean;
+  /** Running totals for the end-of-run summary */
+  tally: RunTally;
+  /** How the run ended, null while it goes on */
+  ending: RunEnding | null;
+
+  // World State
+  world: WorldState;
 
   // Conversation State
   history: ConversationTurn[];
+  /** Story-so-far summary and pinned facts for turns beyond the recent window */
+  memory: MemoryState;
+
+  // Server State
+  /** Server session that holds the authoritative copy of this game */
+  sessionId: string | null;
+  /** Seed driving every random roll of the run, null until it starts */
+  seed: string | null;
+  /** Server signature of the mirrored state, kept with saves */
+  signature: string | null;
+
+  // Statistics
+  /** What the player did this run: commands, damage, items, time, cues */
+  runStats: RunStats;
 
   // UI State
   isProcessing: boolean;
@@ -52,11 +88,22 @@ export interface GameState {
   // Actions
   toggleMute: () => void;
   submitCommand: (command: string) => Promise<void>;
-  applyStateUpdate: (update: GameStateUpdate) => void;
-  addNarrativeEntry: (entry: Omit<NarrativeEntry, 'id' | 'timestamp'>) => void;
+  syncSession: (update: SessionUpdate) => void;
+  recordTurnStats: (before: TurnSnapshot, response: StructuredResponse) => void;
+  addNarrativeEntry: (entry: Omit<NarrativeEntry, 'id' | 'timestamp'>) => string;
+  updateNarrativeEntry: (id: string, patch: Partial<Pick<NarrativeEntry, 'content' | 'isStreaming'>>) => void;
+  removeNarrativeEntry: (id: string) => void;
   setTypingComplete: () => void;
-  resetGame: () => void;
-  initializeGame: () => Promise<void>;
-  setTheme: (theme: ThemeKey) => void;
+  resetGame: (seed?: string) => void;
+  initializeGame: (seed?: string) => Promise<void>;
+  resumeGame: () => void;
+  getSnapshot: () => SavedGameState;
+  restoreSnapshot: (snapshot: SavedGameState, notice: string) => Promise<void>;
+  saveGame: (slot: string, name?: string) => boolean;
+  loadGame: (slot: string) => boolean;
+  deleteSave: (slot: string) => void;
+  importRun: (text: string) => boolean;
+  setTheme: (theme: ThemeKey, seed?: string) => void;
+  shiftReality: (theme: ThemeKey) => Promise<void>;
   setTextSpeed: (speed: TextSpeed) => void;
 }